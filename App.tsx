@@ -1,9 +1,41 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { fetchCityBudget } from './services/geminiService';
-import { BudgetResponse, City, SankeyData, SankeyNode, SankeyLink } from './types';
+import { BudgetCache, BudgetResponse, BudgetVersion, CachedBudget, City, FiscalYear, SankeyData } from './types';
+import { CITIES, FISCAL_YEARS, FISCAL_YEAR_LABELS } from './constants';
+import { budgetKey, getCachedYears, replaceBudget } from './services/budgetCache';
+import { loadAllBudgets, persistCacheChanges } from './services/budgetStore';
 import SankeyChart from './components/SankeyChart';
 import BudgetComparisonChart from './components/BudgetComparisonChart';
+import BudgetDiffView from './components/BudgetDiffView';
+import WardMap from './components/WardMap';
+import DataQualityPanel from './components/DataQualityPanel';
+import ExtractionTranscript from './components/ExtractionTranscript';
+import SettingsPanel from './components/SettingsPanel';
+import BatchFetchPanel from './components/BatchFetchPanel';
+import StorageManager from './components/StorageManager';
+import CsvImportDialog from './components/CsvImportDialog';
+import BundleImportDialog from './components/BundleImportDialog';
+import TaxonomyManager from './components/TaxonomyManager';
+import BudgetEditor from './components/BudgetEditor';
+import MergeDialog from './components/MergeDialog';
+import VersionTimeline from './components/VersionTimeline';
+import { validateBudget } from './services/budgetValidator';
+import { parseCsv, downloadCsv } from './services/csv';
+import { CSV_EXPORT_HEADERS, ImportGroup, applyImport, budgetCsvRows } from './services/budgetCsv';
+import { downloadWorkbook } from './services/xlsx';
+import { buildBudgetWorkbook, workbookFileName } from './services/budgetWorkbook';
+import { BundleImportMode, ParsedBundle, applyBundleImport, applyDomainImport, applyOverridesImport, parseBundle, serializeBundle } from './services/workspaceBundle';
+import { AppSettings, loadSettings, saveSettings } from './services/settings';
+import { createBudgetProvider } from './services/budgetProvider';
+import { FetchOptions } from './services/budgetExtraction';
+import { findPromptTemplate } from './services/promptTemplates';
+import { allDomains, domainOf, findDomain } from './services/budgetDomains';
+import { aiOrigin, describeOrigin, restoreVersion, stampVersion } from './services/budgetVersions';
+import { ViewMode, ViewState, defaultMapCategory, parseViewState, serializeViewState } from './services/urlState';
+import { ComparisonMetric, ComparisonStack } from './services/budgetComparison';
+import { MapMetric } from './services/wardMetrics';
+import { TaxonomyOverrides, createClassifier, getCategory, loadTaxonomyOverrides, saveTaxonomyOverrides } from './services/taxonomy';
+import { BatchJob, BatchJobOptions, createBatchJob, loadBatchJob, runBatchJob, saveBatchJob } from './services/batchQueue';
 import { 
   ChartBarIcon, 
   ArrowPathIcon, 
@@ -20,11 +52,19 @@ import {
   ExclamationCircleIcon,
   TableCellsIcon,
   CloudArrowDownIcon,
-  ArrowUpTrayIcon
+  ArrowUpTrayIcon,
+  CalendarDaysIcon,
+  ArrowTrendingUpIcon,
+  Cog6ToothIcon,
+  CircleStackIcon,
+  ArchiveBoxArrowDownIcon,
+  DocumentArrowDownIcon,
+  TagIcon,
+  LinkIcon,
+  PencilSquareIcon,
+  Squares2X2Icon
 } from '@heroicons/react/24/outline';
 
-const CACHE_KEY = 'tokyo_23_budget_cache_v2';
-
 // Utility to format "Thousand Yen" to natural Japanese units
 export const formatJapaneseCurrency = (kYen: number) => {
   if (kYen === 0) return "0 円";
@@ -35,21 +75,71 @@ export const formatJapaneseCurrency = (kYen: number) => {
 };
 
 const App: React.FC = () => {
-  const [selectedCity, setSelectedCity] = useState<City>('世田谷区');
-  const [viewMode, setViewMode] = useState<'flow' | 'compare'>('flow');
-  const [cache, setCache] = useState<Partial<Record<City, BudgetResponse & { timestamp: number }>>>(() => {
-    try {
-      const saved = localStorage.getItem(CACHE_KEY);
-      return saved ? JSON.parse(saved) : {};
-    } catch (e) {
-      return {};
-    }
-  });
+  // Opening a shared link restores its view; the URL is kept in step below
+  const [initialView] = useState<ViewState>(() => parseViewState(window.location.search));
+  const [selectedCity, setSelectedCity] = useState<City>(initialView.city);
+  const [selectedYear, setSelectedYear] = useState<FiscalYear>(initialView.fiscalYear);
+  const [selectedDomainId, setSelectedDomainId] = useState(initialView.domainId);
+  const [viewMode, setViewMode] = useState<ViewMode>(initialView.viewMode);
+  const [focusId, setFocusId] = useState<string | null>(initialView.focusId);
+  const [compareMetric, setCompareMetric] = useState<ComparisonMetric>(initialView.compareMetric);
+  const [compareStack, setCompareStack] = useState<ComparisonStack>(initialView.compareStack);
+  const [mapMetric, setMapMetric] = useState<MapMetric>(initialView.mapMetric);
+  const [mapCategory, setMapCategory] = useState(initialView.mapCategory);
+  const urlSyncedRef = useRef(false);
+  const [cache, setCache] = useState<BudgetCache>({});
+  // For callbacks that must see the latest cache without being rebuilt by every change
+  const cacheRef = useRef(cache);
+  cacheRef.current = cache;
+  // Wards being fetched right now, by cache key, so a rerun never asks twice
+  const inFlightRef = useRef<Set<string>>(new Set());
+  // Nothing is fetched until the stored cache is loaded, or every ward would look missing
+  const [cacheReady, setCacheReady] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [showStorage, setShowStorage] = useState(false);
+  const persistedCacheRef = useRef<BudgetCache>({});
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [taxonomyOverrides, setTaxonomyOverrides] = useState<TaxonomyOverrides>(loadTaxonomyOverrides);
+  const [showTaxonomy, setShowTaxonomy] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showVersions, setShowVersions] = useState(false);
+  // Refreshed AI results waiting to be merged into wards that already have data, oldest first
+  const [pendingMerges, setPendingMerges] = useState<{ id: number; city: City; fiscalYear: FiscalYear; domain: string; result: BudgetResponse }[]>([]);
+  const pendingMergeIdRef = useRef(0);
+  const pendingMerge = pendingMerges[0] || null;
+  const [batchJob, setBatchJob] = useState<BatchJob | null>(loadBatchJob);
+  const batchControllerRef = useRef<AbortController | null>(null);
+  const batchRunRef = useRef<Promise<BatchJob> | null>(null);
+  // A start or resume that arrived while a paused run was still finishing its fetches
+  const queuedBatchRef = useRef<BatchJob | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<{message: string, isQuota: boolean} | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [bundleImport, setBundleImport] = useState<{ fileName: string; bundle: ParsedBundle } | null>(null);
+
+  const provider = useMemo(
+    () => createBudgetProvider(settings.provider, settings.openAICompatible, settings.gemini),
+    [settings.provider, settings.openAICompatible, settings.gemini]
+  );
 
-  const budgetInfo = cache[selectedCity] || null;
+  const fetchOptions = useMemo<FetchOptions>(() => ({
+    maxAttempts: settings.maxAttempts,
+    template: findPromptTemplate(settings.promptTemplates, settings.promptVersion),
+    temperature: settings.temperature ?? undefined,
+  }), [settings.maxAttempts, settings.promptTemplates, settings.promptVersion, settings.temperature]);
+
+  // An id that isn't defined here (e.g. a custom domain from a shared link) falls back to tourism
+  const domain = useMemo(() => findDomain(settings.customDomains, selectedDomainId), [settings.customDomains, selectedDomainId]);
+  const domains = useMemo(() => allDomains(settings.customDomains), [settings.customDomains]);
+
+  const classify = useMemo(() => createClassifier(domain.id, taxonomyOverrides), [domain.id, taxonomyOverrides]);
+  // Each domain has its own business categories, so a category picked in another one may not exist here
+  const effectiveMapCategory = getCategory(domain.id, mapCategory) ? mapCategory : defaultMapCategory(domain.id);
+
+  const budgetInfo = cache[budgetKey(selectedCity, selectedYear, domain.id)] || null;
+  const cachedYears = useMemo(() => getCachedYears(cache, selectedCity, domain.id), [cache, selectedCity, domain.id]);
 
   const totalBudget = useMemo(() => {
     if (!budgetInfo?.data.links || budgetInfo.data.links.length === 0) return 0;
@@ -64,181 +154,338 @@ const App: React.FC = () => {
     return Math.max(...Object.values(nodeSums), 0);
   }, [budgetInfo]);
 
+  const qualityReport = useMemo(
+    () => (budgetInfo ? validateBudget(budgetInfo.data, budgetInfo.explanation) : null),
+    [budgetInfo]
+  );
+
+  useEffect(() => {
+    loadAllBudgets()
+      .then(stored => {
+        persistedCacheRef.current = stored;
+        setCache(stored);
+      })
+      .catch(err => {
+        console.error(err);
+        setStorageError('保存データを読み込めませんでした。このセッションの取得結果は保存されません。');
+      })
+      .finally(() => setCacheReady(true));
+  }, []);
+
   useEffect(() => {
-    localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
-  }, [cache]);
+    if (!cacheReady) return;
+    // Diffed against the last snapshot that was actually written, so a failed write is
+    // retried with the next change instead of being forgotten
+    persistCacheChanges(persistedCacheRef.current, cache).then(() => {
+      persistedCacheRef.current = cache;
+    }).catch(err => {
+      console.error(err);
+      setStorageError(`データの保存に失敗しました（${err?.name || err}）。保存データの管理から不要なデータを削除してください。`);
+    });
+  }, [cache, cacheReady]);
 
-  const loadData = useCallback(async (city: City, force: boolean = false) => {
-    if (!force && cache[city]) {
+  // A ward that already has data may carry imports or corrections, so its refresh
+  // waits in the merge queue instead of replacing it
+  const storeResult = useCallback((city: City, fiscalYear: FiscalYear, domainId: string, result: BudgetResponse) => {
+    const key = budgetKey(city, fiscalYear, domainId);
+    if (cacheRef.current[key]) {
+      const id = ++pendingMergeIdRef.current;
+      setPendingMerges(prev => [...prev, { id, city, fiscalYear, domain: domainId, result }]);
+      return;
+    }
+    setCache(prev => ({
+      ...prev,
+      [key]: replaceBudget(prev[key], { ...result, city, domain: domainId, aiData: result.data, ...stampVersion(aiOrigin(result), settings.authorLabel) })
+    }));
+  }, [settings.authorLabel]);
+
+  const loadData = useCallback(async (city: City, fiscalYear: FiscalYear, force: boolean = false) => {
+    const key = budgetKey(city, fiscalYear, domain.id);
+    if (!force && cacheRef.current[key]) {
       setError(null);
       return;
     }
+    if (inFlightRef.current.has(key)) return;
+    if (provider.domains && !provider.domains.includes(domain.id)) {
+      setError({ message: `${provider.label}には${domain.label}のデータがありません。設定で別の取得元を選ぶか、分野を切り替えてください。`, isQuota: false });
+      return;
+    }
 
+    inFlightRef.current.add(key);
     setLoading(true);
     setError(null);
     try {
-      const result = await fetchCityBudget(city);
-      setCache(prev => ({ 
-        ...prev, 
-        [city]: { ...result, timestamp: Date.now() } 
-      }));
+      const result = await provider.fetchBudget(city, fiscalYear, domain, fetchOptions);
+      storeResult(city, fiscalYear, domain.id, result);
     } catch (err: any) {
       console.error(err);
       const isQuota = err.message?.includes('429') || err.message?.includes('quota');
       setError({
         message: isQuota 
           ? "APIの利用制限に達しました。無料枠の上限を超えたため、数分待ってから再度お試しください。" 
-          : `${city}のデータ取得中にエラーが発生しました。時間を置いて再度お試しください。`,
+          : `${city}（${FISCAL_YEAR_LABELS[fiscalYear]}・${domain.label}）のデータ取得中にエラーが発生しました。時間を置いて再度お試しください。`,
         isQuota
       });
     } finally {
+      inFlightRef.current.delete(key);
       setLoading(false);
     }
-  }, [cache]);
+  }, [domain, provider, fetchOptions, storeResult]);
 
+  // Only a change of ward, year or domain loads anything. Keeping loadData out of the
+  // deps stops each batch result (a new cache) from firing another fetch
   useEffect(() => {
-    loadData(selectedCity);
-  }, [selectedCity, loadData]);
+    if (cacheReady) loadData(selectedCity, selectedYear);
+  }, [selectedCity, selectedYear, domain.id, cacheReady]);
 
-  const handleExportAll = () => {
-    const headers = ["自治体名", "元項目", "先項目", "金額(千円)", "金額(表示用)"];
-    const rows: any[] = [];
-    
-    Object.entries(cache).forEach(([city, budget]: [any, any]) => {
-      const nodeNameMap = new Map(budget.data.nodes.map((n: any) => [n.id, n.name]));
-      budget.data.links.forEach((link: any) => {
-        rows.push([
-          city,
-          nodeNameMap.get(link.source) || link.source,
-          nodeNameMap.get(link.target) || link.target,
-          link.value,
-          formatJapaneseCurrency(link.value)
-        ]);
-      });
+  const runBatch = useCallback((job: BatchJob) => {
+    if (batchControllerRef.current) {
+      // Pausing only stops new fetches; the request is picked up once the ones in flight return
+      if (batchControllerRef.current.signal.aborted) queuedBatchRef.current = job;
+      return;
+    }
+    const controller = new AbortController();
+    batchControllerRef.current = controller;
+    const run = runBatchJob(
+      job,
+      async (city, fiscalYear, domainId) => {
+        const key = budgetKey(city, fiscalYear, domainId);
+        inFlightRef.current.add(key);
+        try {
+          return await provider.fetchBudget(city, fiscalYear, findDomain(settings.customDomains, domainId), fetchOptions);
+        } finally {
+          inFlightRef.current.delete(key);
+        }
+      },
+      { onUpdate: setBatchJob, onResult: storeResult },
+      controller.signal
+    );
+    batchRunRef.current = run;
+    run.finally(() => {
+      batchControllerRef.current = null;
+    }).then(finished => {
+      const queued = queuedBatchRef.current;
+      queuedBatchRef.current = null;
+      // Resuming the same job continues from where the paused run actually stopped
+      if (queued) runBatchRef.current(queued.id === finished.id ? finished : queued);
     });
+  }, [provider, settings.customDomains, fetchOptions, storeResult]);
+  const runBatchRef = useRef(runBatch);
+  runBatchRef.current = runBatch;
+
+  // A job still marked running was interrupted by a reload; pick it up where it stopped.
+  // Only on load: while a run is going its job also reads 'running', and runBatch would
+  // queue a restart if the effect fired again during a pause.
+  useEffect(() => {
+    if (cacheReady && batchJob?.state === 'running') runBatch(batchJob);
+  }, [cacheReady]);
+
+  const handleStartBatch = (targets: City[], options: BatchJobOptions) => {
+    runBatch(createBatchJob(targets, selectedYear, domain.id, options));
+  };
 
-    if (rows.length === 0) return alert("出力するデータがありません。各区を選択して読み込んでください。");
+  const handleCancelBatch = async () => {
+    queuedBatchRef.current = null;
+    batchControllerRef.current?.abort();
+    await batchRunRef.current;
+    saveBatchJob(null);
+    setBatchJob(prev => prev && { ...prev, state: 'cancelled' });
+  };
+
+  const handleExportAll = () => {
+    // The CSV has no domain column, so only the domain being viewed goes in
+    const rows = Object.values(cache)
+      .filter((budget): budget is CachedBudget => !!budget && domainOf(budget) === domain.id)
+      .flatMap(budget => budgetCsvRows(budget, formatJapaneseCurrency, classify));
+
+    if (rows.length === 0) return alert(`${domain.label}予算のデータがありません。各区を選択して読み込んでください。`);
+
+    downloadCsv([CSV_EXPORT_HEADERS, ...rows], `東京23区${domain.label}予算_一括エクスポート_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const handleExportWorkbook = () => {
+    if (!CITIES.some(city => cache[budgetKey(city, selectedYear, domain.id)])) {
+      return alert(`${FISCAL_YEAR_LABELS[selectedYear]}の${domain.label}予算のデータがありません。各区を選択して読み込んでください。`);
+    }
+    downloadWorkbook(buildBudgetWorkbook(cache, CITIES, selectedYear, domain.id, classify), workbookFileName(selectedYear, domain.label));
+  };
 
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
-    const blob = new Blob(["\ufeff" + csvContent], { type: "text/csv;charset=utf-8;" });
+  const handleExportBundle = () => {
+    if (Object.keys(cache).length === 0) return alert("出力するデータがありません。各区を選択して読み込んでください。");
+    const blob = new Blob([serializeBundle(cache, settings.customDomains, taxonomyOverrides)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.setAttribute("href", url);
-    link.setAttribute("download", `東京23区観光予算_一括エクスポート_${new Date().toISOString().split('T')[0]}.csv`);
+    link.setAttribute("download", `東京23区予算_ワークスペース_${new Date().toISOString().split('T')[0]}.json`);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   };
 
-  const handleImportCSV = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      const lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
-      if (lines.length < 2) return alert("CSVファイルが空か、正しくありません。");
-
-      const header = lines[0].split(",");
-      const dataRows = lines.slice(1);
-      
-      const cityGroups: Record<string, { source: string, target: string, value: number }[]> = {};
-
-      dataRows.forEach(line => {
-        const parts = line.split(",");
-        if (parts.length < 4) return;
-        const city = parts[0].trim() as City;
-        const source = parts[1].trim();
-        const target = parts[2].trim();
-        const value = parseInt(parts[3].trim());
-        
-        if (!cityGroups[city]) cityGroups[city] = [];
-        cityGroups[city].push({ source, target, value });
-      });
+      if (fileInputRef.current) fileInputRef.current.value = "";
 
-      const newCache: Partial<Record<City, BudgetResponse & { timestamp: number }>> = { ...cache };
-
-      Object.entries(cityGroups).forEach(([city, links]) => {
-        const uniqueNodes = new Set<string>();
-        const targetNames = new Set<string>();
-        
-        links.forEach(l => {
-          uniqueNodes.add(l.source);
-          uniqueNodes.add(l.target);
-          targetNames.add(l.target);
-        });
-
-        // Identify "root" nodes (revenue sources) to apply the "rev_" prefix
-        // Root nodes are those that appear as a source but NEVER as a target
-        const nodes: SankeyNode[] = Array.from(uniqueNodes).map(name => {
-          const isRoot = !targetNames.has(name);
-          return {
-            id: isRoot ? `rev_${name}` : `n_${name}`,
-            name: name
-          };
-        });
-
-        const sankeyLinks: SankeyLink[] = links.map(l => ({
-          source: !targetNames.has(l.source) ? `rev_${l.source}` : `n_${l.source}`,
-          target: `n_${l.target}`,
-          value: l.value
-        }));
-
-        newCache[city as City] = {
-          data: { nodes, links: sankeyLinks },
-          explanation: `${city}のCSVインポートデータ（${new Date().toLocaleString()}に反映）`,
-          sources: [],
-          timestamp: Date.now()
-        };
-      });
+      if (file.name.toLowerCase().endsWith(".json")) {
+        try {
+          setBundleImport({ fileName: file.name, bundle: parseBundle(text) });
+        } catch (err: any) {
+          alert(err.message);
+        }
+        return;
+      }
 
-      setCache(newCache);
-      alert(`${Object.keys(cityGroups).length} 区のデータをインポートしました。`);
-      if (fileInputRef.current) fileInputRef.current.value = "";
+      const rows = parseCsv(text);
+      if (rows.length < 2) return alert("CSVファイルが空か、正しくありません。");
+      setCsvImport({ fileName: file.name, rows });
     };
     reader.readAsText(file);
   };
 
+  const handleApplyBundle = (mode: BundleImportMode) => {
+    if (!bundleImport) return;
+    const { budgets, customDomains, taxonomyOverrides: overrides } = bundleImport.bundle;
+    setCache(prev => applyBundleImport(prev, budgets, mode));
+    handleTaxonomyChange(applyOverridesImport(taxonomyOverrides, overrides, mode));
+    const nextSettings = { ...settings, customDomains: applyDomainImport(settings.customDomains, customDomains, mode) };
+    saveSettings(nextSettings);
+    setSettings(nextSettings);
+    setBundleImport(null);
+  };
+
+  const handleApplyImport = (groups: ImportGroup[]) => {
+    if (!csvImport) return;
+    setCache(prev => applyImport(prev, groups, csvImport.fileName, settings.authorLabel));
+    setCsvImport(null);
+  };
+
   const handleCurrentWardExport = () => {
     if (!budgetInfo) return;
-    const nodeNameMap = new Map(budgetInfo.data.nodes.map(n => [n.id, n.name]));
-    const headers = ["自治体名", "元項目", "先項目", "金額(千円)", "金額(表示用)"];
-    const rows = budgetInfo.data.links.map(link => [
-      selectedCity,
-      nodeNameMap.get(link.source) || link.source,
-      nodeNameMap.get(link.target) || link.target,
-      link.value,
-      formatJapaneseCurrency(link.value)
-    ]);
-
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
-    const blob = new Blob(["\ufeff" + csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `${selectedCity}_観光予算詳細_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const rows = budgetCsvRows(budgetInfo, formatJapaneseCurrency, classify);
+
+    downloadCsv([CSV_EXPORT_HEADERS, ...rows], `${selectedCity}_${FISCAL_YEAR_LABELS[selectedYear]}_${domain.label}予算詳細_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const handleSaveEdits = (data: SankeyData) => {
+    const key = budgetKey(selectedCity, selectedYear, domain.id);
+    setCache(prev => (prev[key]
+      ? { ...prev, [key]: replaceBudget(prev[key], { ...prev[key]!, data, ...stampVersion({ kind: 'manual' }, settings.authorLabel) }) }
+      : prev));
+    setShowEditor(false);
+  };
+
+  const handleRestoreVersion = (version: BudgetVersion) => {
+    const key = budgetKey(selectedCity, selectedYear, domain.id);
+    setCache(prev => ({ ...prev, [key]: replaceBudget(prev[key], restoreVersion(version, settings.authorLabel)) }));
+  };
+
+  const handleApplyMerge = (data: SankeyData) => {
+    if (!pendingMerge) return;
+    const { city, fiscalYear, domain: domainId, result } = pendingMerge;
+    const key = budgetKey(city, fiscalYear, domainId);
+    setCache(prev => ({
+      ...prev,
+      [key]: replaceBudget(prev[key], { ...result, data, city, domain: domainId, aiData: result.data, ...stampVersion(aiOrigin(result, 'merge'), settings.authorLabel) })
+    }));
+    setPendingMerges(prev => prev.slice(1));
+  };
+
+  // A queued refresh for a ward deleted meanwhile has nothing left to merge into
+  useEffect(() => {
+    if (pendingMerge && !cache[budgetKey(pendingMerge.city, pendingMerge.fiscalYear, pendingMerge.domain)]) {
+      setPendingMerges(prev => prev.slice(1));
+    }
+  }, [pendingMerge, cache]);
+
+  const handleTaxonomyChange = (next: TaxonomyOverrides) => {
+    setTaxonomyOverrides(next);
+    saveTaxonomyOverrides(next);
   };
 
   const handleCityChange = (city: City) => {
     if (city !== selectedCity) {
       setSelectedCity(city);
-      if (viewMode === 'compare') setViewMode('flow');
+      setFocusId(null);
+      if (viewMode === 'compare' || viewMode === 'map') setViewMode('flow');
     }
   };
 
+  const handleYearChange = (year: FiscalYear) => {
+    setSelectedYear(year);
+    setFocusId(null);
+  };
+
+  const handleDomainChange = (domainId: string) => {
+    setSelectedDomainId(domainId);
+    setFocusId(null);
+  };
+
+  const handleSelectWardOnMap = useCallback((city: City) => {
+    setSelectedCity(city);
+    setFocusId(null);
+    setViewMode('flow');
+  }, []);
+
+  useEffect(() => {
+    const search = serializeViewState({
+      city: selectedCity,
+      viewMode,
+      fiscalYear: selectedYear,
+      domainId: domain.id,
+      focusId,
+      compareMetric,
+      compareStack,
+      mapMetric,
+      mapCategory: effectiveMapCategory,
+    });
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    // The first write only fills in defaults, so it shouldn't add a history entry
+    if (urlSyncedRef.current) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+    urlSyncedRef.current = true;
+  }, [selectedCity, viewMode, selectedYear, domain.id, focusId, compareMetric, compareStack, mapMetric, effectiveMapCategory]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseViewState(window.location.search);
+      setSelectedCity(state.city);
+      setViewMode(state.viewMode);
+      setSelectedYear(state.fiscalYear);
+      setSelectedDomainId(state.domainId);
+      setFocusId(state.focusId);
+      setCompareMetric(state.compareMetric);
+      setCompareStack(state.compareStack);
+      setMapMetric(state.mapMetric);
+      setMapCategory(state.mapCategory);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => alert("この表示へのリンクをコピーしました。"))
+      .catch(() => prompt("このリンクをコピーしてください。", window.location.href));
+  };
+
+  const handleSaveSettings = (next: AppSettings) => {
+    saveSettings(next);
+    setSettings(next);
+    setShowSettings(false);
+  };
+
   const handleRefresh = () => {
-    loadData(selectedCity, true);
+    loadData(selectedCity, selectedYear, true);
   };
 
-  const cities: City[] = [
-    '千代田区', '中央区', '港区', '新宿区', '文京区', '台東区', '墨田区', '江東区', 
-    '品川区', '目黒区', '大田区', '世田谷区', '渋谷区', '中野区', '杉並区', '豊島区', 
-    '北区', '荒川区', '板橋区', '練馬区', '足立区', '葛飾区', '江戸川区'
-  ];
+  const cities = CITIES;
 
   const hasChartData = budgetInfo && budgetInfo.data.nodes.length > 0 && budgetInfo.data.links.length > 0;
 
@@ -253,7 +500,7 @@ const App: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-xl sm:text-2xl font-black tracking-tight leading-tight">
-                  東京23区 観光予算 <span className="text-emerald-400">ビジュアライザー</span>
+                  東京23区 {domain.label}予算 <span className="text-emerald-400">ビジュアライザー</span>
                 </h1>
                 <p className="text-slate-400 text-xs sm:text-sm font-medium opacity-90">自治体別・詳細事業フロー解析</p>
               </div>
@@ -270,6 +517,15 @@ const App: React.FC = () => {
                   <ArrowsRightLeftIcon className="w-4 h-4" />
                   予算フロー
                 </button>
+                <button
+                  onClick={() => setViewMode('diff')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-bold transition-all ${
+                    viewMode === 'diff' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <ArrowTrendingUpIcon className="w-4 h-4" />
+                  年度比較
+                </button>
                 <button
                   onClick={() => setViewMode('compare')}
                   className={`flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-bold transition-all ${
@@ -279,11 +535,50 @@ const App: React.FC = () => {
                   <PresentationChartBarIcon className="w-4 h-4" />
                   23区比較
                 </button>
+                <button
+                  onClick={() => setViewMode('map')}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-xs font-bold transition-all ${
+                    viewMode === 'map' ? 'bg-emerald-600 text-white shadow-lg' : 'text-slate-400 hover:text-white'
+                  }`}
+                >
+                  <MapIcon className="w-4 h-4" />
+                  地図
+                </button>
               </div>
 
               <div className="h-8 w-px bg-slate-700 hidden sm:block"></div>
 
               <div className="flex flex-wrap items-center gap-2">
+                <div className="flex items-center gap-1.5 bg-slate-800 px-2 py-1 rounded-xl border border-slate-700">
+                  <CalendarDaysIcon className="w-4 h-4 text-emerald-400" />
+                  <select
+                    value={selectedYear}
+                    disabled={loading}
+                    onChange={(e) => handleYearChange(e.target.value as FiscalYear)}
+                    title="対象年度"
+                    className="bg-transparent text-xs font-bold text-white py-1 focus:outline-none disabled:opacity-30"
+                  >
+                    {FISCAL_YEARS.map(year => (
+                      <option key={year} value={year} className="text-slate-900">{FISCAL_YEAR_LABELS[year]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex items-center gap-1.5 bg-slate-800 px-2 py-1 rounded-xl border border-slate-700">
+                  <Squares2X2Icon className="w-4 h-4 text-emerald-400" />
+                  <select
+                    value={domain.id}
+                    disabled={loading}
+                    onChange={(e) => handleDomainChange(e.target.value)}
+                    title="対象分野（設定から追加できます）"
+                    className="bg-transparent text-xs font-bold text-white py-1 focus:outline-none disabled:opacity-30"
+                  >
+                    {domains.map(d => (
+                      <option key={d.id} value={d.id} className="text-slate-900">{d.label}</option>
+                    ))}
+                  </select>
+                </div>
+
                 <div className="flex flex-wrap bg-slate-800 p-1 rounded-xl border border-slate-700 shadow-inner max-w-[300px] sm:max-w-md overflow-x-auto no-scrollbar scroll-smooth">
                   {cities.map((city) => (
                     <button
@@ -311,16 +606,34 @@ const App: React.FC = () => {
                     <span className="text-xs font-bold hidden xl:inline">一括エクスポート</span>
                   </button>
 
+                  <button
+                    onClick={handleExportWorkbook}
+                    title={`${FISCAL_YEAR_LABELS[selectedYear]}・${domain.label}の23区比較・各区の予算フロー・出典をExcelで出力`}
+                    className="p-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-all shadow-lg flex items-center gap-2 px-3"
+                  >
+                    <DocumentArrowDownIcon className="w-4 h-4" />
+                    <span className="text-xs font-bold hidden xl:inline">Excel</span>
+                  </button>
+
                   <input 
                     type="file" 
                     ref={fileInputRef}
-                    accept=".csv"
+                    accept=".csv,.json"
                     className="hidden" 
-                    onChange={handleImportCSV}
+                    onChange={handleImportFile}
                   />
+                  <button
+                    onClick={handleExportBundle}
+                    title="解説・出典・AI抽出履歴を含む全データをJSONで保存（インポートで完全に復元できます）"
+                    className="p-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-all shadow-lg flex items-center gap-2 px-3"
+                  >
+                    <ArchiveBoxArrowDownIcon className="w-4 h-4" />
+                    <span className="text-xs font-bold hidden xl:inline">JSON保存</span>
+                  </button>
+
                   <button 
                     onClick={() => fileInputRef.current?.click()}
-                    title="CSVからデータをインポート"
+                    title="CSVまたはJSONからデータをインポート"
                     className="p-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg transition-all shadow-lg flex items-center gap-2 px-3"
                   >
                     <ArrowUpTrayIcon className="w-4 h-4" />
@@ -336,13 +649,120 @@ const App: React.FC = () => {
                   <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
                   <span className="text-xs font-bold hidden sm:inline">AI更新</span>
                 </button>
+
+                <button
+                  onClick={handleCopyLink}
+                  title="この表示へのリンクをコピー"
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-xl transition-all"
+                >
+                  <LinkIcon className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => setShowTaxonomy(true)}
+                  title="分類の対応表"
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-xl transition-all"
+                >
+                  <TagIcon className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => setShowStorage(true)}
+                  title="保存データの管理"
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-xl transition-all"
+                >
+                  <CircleStackIcon className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => setShowSettings(true)}
+                  title={`データ取得の設定（現在: ${provider.label}）`}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded-xl transition-all"
+                >
+                  <Cog6ToothIcon className="w-5 h-5" />
+                </button>
               </div>
             </div>
           </div>
         </div>
       </header>
 
+      {showSettings && (
+        <SettingsPanel settings={settings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {csvImport && (
+        <CsvImportDialog
+          fileName={csvImport.fileName}
+          rows={csvImport.rows}
+          cache={cache}
+          defaultCity={selectedCity}
+          defaultYear={selectedYear}
+          domain={domain.id}
+          onApply={handleApplyImport}
+          onClose={() => setCsvImport(null)}
+        />
+      )}
+
+      {bundleImport && (
+        <BundleImportDialog
+          fileName={bundleImport.fileName}
+          bundle={bundleImport.bundle}
+          cache={cache}
+          onApply={handleApplyBundle}
+          onClose={() => setBundleImport(null)}
+        />
+      )}
+
+      {showStorage && (
+        <StorageManager cache={cache} domains={domains} onChange={setCache} onClose={() => setShowStorage(false)} />
+      )}
+
+      {showTaxonomy && (
+        <TaxonomyManager
+          cache={cache}
+          domain={domain}
+          overrides={taxonomyOverrides}
+          onChange={handleTaxonomyChange}
+          onClassify={provider.classifyNames}
+          onClose={() => setShowTaxonomy(false)}
+        />
+      )}
+
+      {pendingMerge && cache[budgetKey(pendingMerge.city, pendingMerge.fiscalYear, pendingMerge.domain)] && (
+        <MergeDialog
+          key={pendingMerge.id}
+          current={cache[budgetKey(pendingMerge.city, pendingMerge.fiscalYear, pendingMerge.domain)]!}
+          result={pendingMerge.result}
+          remaining={pendingMerges.length - 1}
+          onApply={handleApplyMerge}
+          onClose={() => setPendingMerges(prev => prev.slice(1))}
+        />
+      )}
+
+      {showVersions && budgetInfo && (
+        <VersionTimeline budget={budgetInfo} onRestore={handleRestoreVersion} onClose={() => setShowVersions(false)} />
+      )}
+
+      {showEditor && budgetInfo && (
+        <BudgetEditor budget={budgetInfo} onSave={handleSaveEdits} onClose={() => setShowEditor(false)} />
+      )}
+
       <main className="container mx-auto px-4 mt-8">
+        {storageError && (
+          <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-r-xl shadow-sm flex items-center gap-3">
+            <ExclamationTriangleIcon className="w-6 h-6 text-red-600 shrink-0" />
+            <p className="text-sm font-bold text-red-800 flex-1">{storageError}</p>
+            <button onClick={() => setStorageError(null)} className="text-xs font-bold text-red-600 hover:underline">閉じる</button>
+          </div>
+        )}
+        {provider.id !== 'gemini' && (
+          <div className="mb-6 px-4 py-2 bg-indigo-50 border border-indigo-100 rounded-xl text-xs font-bold text-indigo-700 flex items-center gap-2">
+            <Cog6ToothIcon className="w-4 h-4" />
+            データプロバイダー: {provider.label}
+          </div>
+        )}
+
         {error?.isQuota && (
           <div className="mb-6 bg-amber-50 border-l-4 border-amber-500 p-4 rounded-r-xl shadow-sm animate-in slide-in-from-top-4">
             <div className="flex items-center gap-3">
@@ -357,8 +777,50 @@ const App: React.FC = () => {
 
         {viewMode === 'compare' ? (
           <div className="space-y-8">
-            <BudgetComparisonChart cache={cache} cities={cities} />
+            <BatchFetchPanel
+              job={batchJob}
+              cache={cache}
+              cities={cities}
+              fiscalYear={selectedYear}
+              domain={domain}
+              onStart={handleStartBatch}
+              onPause={() => batchControllerRef.current?.abort()}
+              onResume={() => batchJob && runBatch(batchJob)}
+              onCancel={handleCancelBatch}
+            />
+            <BudgetComparisonChart
+              cache={cache}
+              cities={cities}
+              fiscalYear={selectedYear}
+              domain={domain}
+              classify={classify}
+              metric={compareMetric}
+              stackBy={compareStack}
+              onMetricChange={setCompareMetric}
+              onStackByChange={setCompareStack}
+            />
           </div>
+        ) : viewMode === 'map' ? (
+          <WardMap
+            cache={cache}
+            cities={cities}
+            fiscalYear={selectedYear}
+            domain={domain}
+            classify={classify}
+            onSelectWard={handleSelectWardOnMap}
+            metric={mapMetric}
+            categoryId={effectiveMapCategory}
+            onMetricChange={setMapMetric}
+            onCategoryChange={setMapCategory}
+          />
+        ) : viewMode === 'diff' ? (
+          <BudgetDiffView
+            cache={cache}
+            city={selectedCity}
+            fiscalYear={selectedYear}
+            domain={domain}
+            classify={classify}
+          />
         ) : loading ? (
           <div className="flex flex-col items-center justify-center min-h-[60vh] gap-6 text-center animate-in fade-in duration-500">
             <div className="relative">
@@ -368,7 +830,7 @@ const App: React.FC = () => {
               </div>
             </div>
             <div>
-              <p className="text-xl font-bold text-slate-700">{selectedCity}の最新予算を解析中</p>
+              <p className="text-xl font-bold text-slate-700">{selectedCity}の{FISCAL_YEAR_LABELS[selectedYear]}{domain.label}予算を解析中</p>
               <p className="text-slate-500 mt-2">ウェブ上の公開資料から詳細な細目を抽出・換算しています...</p>
             </div>
           </div>
@@ -399,11 +861,27 @@ const App: React.FC = () => {
             <div className="flex flex-wrap items-center gap-4 text-sm font-medium text-slate-500 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm">
               <div className="px-3 py-1 bg-emerald-50 text-emerald-700 rounded-lg flex items-center gap-2">
                 <BuildingOffice2Icon className="w-4 h-4" />
-                <span>表示中: {selectedCity}</span>
+                <span>表示中: {selectedCity}（{FISCAL_YEAR_LABELS[selectedYear]}・{domain.label}）</span>
               </div>
+              {cachedYears.length > 1 && (
+                <div className="flex items-center gap-1 text-xs">
+                  <span className="text-slate-400">取得済み年度:</span>
+                  {cachedYears.map(year => (
+                    <button
+                      key={year}
+                      onClick={() => handleYearChange(year)}
+                      className={`px-2 py-0.5 rounded-md font-bold transition-all ${
+                        year === selectedYear ? 'bg-emerald-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-emerald-50 hover:text-emerald-700'
+                      }`}
+                    >
+                      {FISCAL_YEAR_LABELS[year]}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="px-3 py-1 bg-slate-50 text-slate-600 rounded-lg flex items-center gap-2 text-xs">
                 <ClockIcon className="w-4 h-4 text-slate-400" />
-                <span>最終更新: {new Date(budgetInfo.timestamp).toLocaleString()}</span>
+                <span>最終更新: {new Date(budgetInfo.timestamp).toLocaleString()}・{describeOrigin(budgetInfo.origin, budgetInfo.versions)}</span>
               </div>
               <div className="flex items-center gap-4 ml-auto overflow-x-auto whitespace-nowrap scroll-smooth">
                 <span className="flex items-center gap-1"><div className="w-2 h-2 rounded-full bg-slate-300"></div> 財源層</span>
@@ -421,7 +899,7 @@ const App: React.FC = () => {
                     <ChartBarIcon className="w-7 h-7 text-emerald-700" />
                   </div>
                   <div>
-                    <h2 className="text-xl font-bold text-slate-800 leading-tight">{selectedCity} 観光予算フロー</h2>
+                    <h2 className="text-xl font-bold text-slate-800 leading-tight">{selectedCity} {FISCAL_YEAR_LABELS[selectedYear]} {domain.label}予算フロー</h2>
                     <p className="text-slate-500 text-sm font-medium">財源から各事業への資金配分</p>
                   </div>
                 </div>
@@ -445,6 +923,22 @@ const App: React.FC = () => {
                       <TableCellsIcon className="w-4 h-4" />
                       <span className="text-xs font-bold">CSV</span>
                     </button>
+                    <button
+                      onClick={() => setShowEditor(true)}
+                      className="p-2 bg-slate-100 hover:bg-emerald-600 hover:text-white text-slate-600 rounded-xl transition-all border border-slate-200 flex items-center gap-2 px-3"
+                      title="この区のデータを手動で修正"
+                    >
+                      <PencilSquareIcon className="w-4 h-4" />
+                      <span className="text-xs font-bold">修正</span>
+                    </button>
+                    <button
+                      onClick={() => setShowVersions(true)}
+                      className="p-2 bg-slate-100 hover:bg-emerald-600 hover:text-white text-slate-600 rounded-xl transition-all border border-slate-200 flex items-center gap-2 px-3"
+                      title="この区のデータの版と取得経緯"
+                    >
+                      <ClockIcon className="w-4 h-4" />
+                      <span className="text-xs font-bold">履歴 {(budgetInfo.versions?.length || 0) + 1}</span>
+                    </button>
                   </div>
                 </div>
               </div>
@@ -453,8 +947,12 @@ const App: React.FC = () => {
                 <SankeyChart 
                     data={budgetInfo.data} 
                     city={selectedCity}
-                    width={Math.max(window.innerWidth * 0.9, 1200)} 
-                    height={850} 
+                    fiscalYear={selectedYear}
+                    domainLabel={domain.label}
+                    sources={budgetInfo.sources}
+                    classify={classify}
+                    focusId={focusId}
+                    onFocusChange={setFocusId}
                 />
               ) : (
                 <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center">
@@ -493,6 +991,7 @@ const App: React.FC = () => {
               </div>
 
               <div className="space-y-6">
+                {qualityReport && <DataQualityPanel report={qualityReport} />}
                 <div className="bg-white p-6 rounded-[2rem] shadow-lg border border-slate-200">
                   <div className="flex items-center gap-2 mb-4">
                     <GlobeAltIcon className="w-6 h-6 text-emerald-600" />
@@ -519,6 +1018,10 @@ const App: React.FC = () => {
                 </div>
               </div>
             </div>
+
+            {budgetInfo.attempts && budgetInfo.attempts.length > 0 && (
+              <ExtractionTranscript attempts={budgetInfo.attempts} />
+            )}
           </div>
         ) : (
           <div className="max-w-xl mx-auto py-24 bg-white rounded-[3rem] border-4 border-dashed border-slate-200 text-center animate-pulse">
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetCache, City, FiscalYear } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import {
+  BatchItemStatus,
+  BatchJob,
+  BatchJobOptions,
+  BATCH_STATUS_LABELS,
+  DEFAULT_BATCH_OPTIONS,
+  selectWardsToFetch,
+} from '../services/batchQueue';
+import { BudgetDomain } from '../services/budgetDomains';
+import { QueueListIcon, PlayIcon, PauseIcon, StopIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  job: BatchJob | null;
+  cache: BudgetCache;
+  cities: City[];
+  fiscalYear: FiscalYear;
+  domain: BudgetDomain;
+  onStart: (cities: City[], options: BatchJobOptions) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'bg-slate-50 text-slate-400 border-slate-200',
+  backoff: 'bg-amber-50 text-amber-700 border-amber-200',
+  running: 'bg-blue-50 text-blue-700 border-blue-200 animate-pulse',
+  done: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const BatchFetchPanel: React.FC<Props> = ({ job, cache, cities, fiscalYear, domain, onStart, onPause, onResume, onCancel }) => {
+  const [options, setOptions] = useState<BatchJobOptions>(job?.options || DEFAULT_BATCH_OPTIONS);
+  // Re-render once a second so backoff countdowns stay current
+  const [, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (job?.state !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [job?.state]);
+
+  const targets = selectWardsToFetch(cache, cities, fiscalYear, domain.id, options.staleAfterDays);
+  const isActive = job && (job.state === 'running' || job.state === 'paused');
+  const finished = job ? job.items.filter(i => i.status === 'done' || i.status === 'failed').length : 0;
+  const progress = job && job.items.length > 0 ? (finished / job.items.length) * 100 : 0;
+
+  const numberField = (field: keyof BatchJobOptions, label: string, min: number, max: number) => (
+    <label className="flex items-center gap-2 text-xs text-slate-500">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={options[field]}
+        disabled={!!isActive}
+        onChange={(e) => setOptions(prev => ({ ...prev, [field]: Math.min(max, Math.max(min, Number(e.target.value) || min)) }))}
+        className="w-16 px-2 py-1 rounded-lg border border-slate-200 text-sm disabled:opacity-50"
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-[2rem] p-6 shadow-lg border border-slate-200">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <QueueListIcon className="w-6 h-6 text-emerald-600" />
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">一括取得</h2>
+            <p className="text-xs text-slate-500">
+              {isActive
+                ? `${FISCAL_YEAR_LABELS[job!.fiscalYear]}: ${finished} / ${job!.items.length} 区を処理済み`
+                : `${FISCAL_YEAR_LABELS[fiscalYear]}・${domain.label}の未取得・古いデータ: ${targets.length} 区`}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {numberField('concurrency', '同時実行数', 1, 5)}
+          {numberField('staleAfterDays', '更新対象（日数超）', 1, 365)}
+          {!isActive && (
+            <button
+              onClick={() => onStart(targets, options)}
+              disabled={targets.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 shadow-lg disabled:opacity-40"
+            >
+              <PlayIcon className="w-4 h-4" />
+              {targets.length} 区を取得
+            </button>
+          )}
+          {job?.state === 'running' && (
+            <button onClick={onPause} className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-xl text-xs font-bold hover:bg-amber-600 shadow-lg">
+              <PauseIcon className="w-4 h-4" />
+              一時停止
+            </button>
+          )}
+          {job?.state === 'paused' && (
+            <button onClick={onResume} className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 shadow-lg">
+              <PlayIcon className="w-4 h-4" />
+              再開
+            </button>
+          )}
+          {isActive && (
+            <button onClick={onCancel} className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200">
+              <StopIcon className="w-4 h-4" />
+              中止
+            </button>
+          )}
+        </div>
+      </div>
+
+      {job && (
+        <>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-4">
+            <div className="h-full bg-emerald-500 transition-all duration-500" style={{ width: `${progress}%` }}></div>
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-2">
+            {job.items.map(item => {
+              const wait = item.status === 'backoff' && item.nextRetryAt ? Math.max(0, Math.ceil((item.nextRetryAt - Date.now()) / 1000)) : null;
+              return (
+                <div key={item.city} title={item.error} className={`px-2 py-1.5 rounded-lg border text-[10px] font-bold ${STATUS_STYLES[item.status]}`}>
+                  <p className="text-xs">{item.city}</p>
+                  <p className="opacity-80">
+                    {BATCH_STATUS_LABELS[item.status]}
+                    {wait !== null && ` ${wait}秒`}
+                    {item.retries > 0 && item.status !== 'done' && ` (再試行${item.retries})`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+          {job.state === 'completed' && (
+            <p className="mt-3 text-xs text-slate-500">
+              完了: 成功 {job.items.filter(i => i.status === 'done').length} 区 / 失敗 {job.items.filter(i => i.status === 'failed').length} 区
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchFetchPanel;
@@ -1,50 +1,71 @@
 
-import React, { useMemo, useEffect, useRef } from 'react';
+import React, { useMemo, useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { BudgetResponse, City } from '../types';
-import { BanknotesIcon, InformationCircleIcon, TableCellsIcon, ChevronDoubleRightIcon } from '@heroicons/react/24/outline';
+import { BudgetCache, City, FiscalYear } from '../types';
+import { FISCAL_YEAR_LABELS, VISITOR_STATS_NOTE, WARD_STATS, WARD_STATS_NOTE } from '../constants';
+import { budgetKey } from '../services/budgetCache';
+import { LAYER_LABELS } from '../services/budgetLayers';
+import { BudgetDomain } from '../services/budgetDomains';
+import { NodeClassifier } from '../services/taxonomy';
+import {
+  COMPARISON_METRIC_LABELS,
+  COMPARISON_STACKS,
+  ComparisonMetric,
+  ComparisonStack,
+  buildLayerComparison,
+  categoryNames,
+  formatMetricValue,
+  normalizeComparison,
+} from '../services/budgetComparison';
+import { ChartExportMeta } from '../services/chartExport';
+import ChartExportMenu from './ChartExportMenu';
+import { downloadCsv } from '../services/csv';
+import { downloadWorkbook } from '../services/xlsx';
+import { buildBudgetWorkbook, workbookFileName } from '../services/budgetWorkbook';
+import { BanknotesIcon, InformationCircleIcon, TableCellsIcon, ChevronDoubleRightIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
 import { formatJapaneseCurrency } from '../App';
 
 interface Props {
-  cache: Partial<Record<City, BudgetResponse & { timestamp: number }>>;
+  cache: BudgetCache;
   cities: City[];
+  fiscalYear: FiscalYear;
+  domain: BudgetDomain;
+  classify: NodeClassifier;
+  // Owned by the app so they can round-trip through the URL
+  metric: ComparisonMetric;
+  stackBy: ComparisonStack;
+  onMetricChange: (metric: ComparisonMetric) => void;
+  onStackByChange: (stackBy: ComparisonStack) => void;
 }
 
-const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
+const STACK_TITLES: Record<ComparisonStack, string> = {
+  rev: '財源内訳（収入科目）',
+  exp: '費目別支出',
+  cat: '事業カテゴリー別支出',
+};
+
+const METRIC_UNITS: Record<ComparisonMetric, string> = {
+  total: '金額(千円)',
+  perCapita: '住民1人あたり(円)',
+  perVisitor: '観光客1人あたり(円)',
+  share: '構成比(%)',
+};
+
+const BudgetComparisonChart: React.FC<Props> = ({ cache, cities, fiscalYear, domain, classify, metric, stackBy, onMetricChange, onStackByChange }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
+  // Wards name the same thing differently, so names are merged by taxonomy unless asked not to
+  const [useTaxonomy, setUseTaxonomy] = useState(true);
 
-  const chartData = useMemo(() => {
-    return cities.map(city => {
-      const data = cache[city];
-      if (!data) return { city, total: 0, categories: [] as {name: string, value: number}[] };
-      
-      const categoryMap = new Map<string, number>();
-      
-      // Group by the source node name (Revenue/Income items)
-      data.data.links.forEach(link => {
-        if (link.source.startsWith('rev_')) {
-          const sourceNode = data.data.nodes.find(n => n.id === link.source);
-          const name = sourceNode ? sourceNode.name : 'その他財源';
-          categoryMap.set(name, (categoryMap.get(name) || 0) + link.value);
-        }
-      });
-
-      const categories = Array.from(categoryMap.entries()).map(([name, value]) => ({ name, value }));
-      const total = categories.reduce((sum, c) => sum + c.value, 0);
-      
-      return { city, total, categories };
-    }).sort((a, b) => b.total - a.total);
-  }, [cache, cities]);
+  const rawData = useMemo(
+    () => buildLayerComparison(cache, cities, fiscalYear, domain.id, stackBy, useTaxonomy ? classify : undefined),
+    [cache, cities, fiscalYear, domain.id, stackBy, useTaxonomy, classify]
+  );
+  const chartData = useMemo(() => normalizeComparison(rawData, metric, WARD_STATS), [rawData, metric]);
 
   // Extract unique category names to ensure consistent coloring
-  const uniqueCategoryNames = useMemo(() => {
-    const names = new Set<string>();
-    chartData.forEach(d => {
-      d.categories.forEach(cat => names.add(cat.name));
-    });
-    return Array.from(names).sort(); // Sorted for stability
-  }, [chartData]);
+  const uniqueCategoryNames = useMemo(() => categoryNames(chartData), [chartData]);
+  const title = `23区${domain.label}予算 ${STACK_TITLES[stackBy]}比較${metric === 'total' ? '' : `（${COMPARISON_METRIC_LABELS[metric]}）`}`;
 
   useEffect(() => {
     if (!svgRef.current || !containerRef.current) return;
@@ -63,7 +84,7 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
       .range([margin.left, width - margin.right])
       .padding(0.3);
 
-    const maxTotal = d3.max(chartData, d => d.total) || 100000;
+    const maxTotal = metric === 'share' ? 100 : d3.max(chartData, d => d.total) || 100000;
     const y = d3.scaleLinear()
       .domain([0, maxTotal])
       .nice()
@@ -124,10 +145,11 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
           .attr("fill", color(cat.name) as string)
           .attr("rx", 2)
           .append("title")
-          .text(`${d.city}\n財源: ${cat.name}\n金額: ${formatJapaneseCurrency(cat.value)}`);
+          .text(`${d.city}\n${LAYER_LABELS[stackBy]}: ${cat.name}\n${COMPARISON_METRIC_LABELS[metric]}: ${formatMetricValue(cat.value, metric, formatJapaneseCurrency)}`);
       });
 
-      if (d.total > 0) {
+      // Every share bar tops out at 100%, so a label would add nothing
+      if (d.total > 0 && metric !== 'share') {
         group.append("text")
           .attr("x", x.bandwidth() / 2)
           .attr("y", currentY - 8)
@@ -135,7 +157,9 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
           .attr("font-size", "9px")
           .attr("font-weight", "black")
           .attr("fill", "#1e293b")
-          .text(d.total >= 100000 ? `${(d.total/100000).toFixed(1)}億` : `${Math.round(d.total/10)}万`);
+          .text(metric !== 'total'
+            ? formatMetricValue(d.total, metric, formatJapaneseCurrency)
+            : d.total >= 100000 ? `${(d.total/100000).toFixed(1)}億` : `${Math.round(d.total/10)}万`);
       }
     });
 
@@ -156,6 +180,8 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
       .call(d3.axisLeft(y).ticks(5).tickFormat(d => {
         const val = d as number;
         if (val === 0) return "0";
+        if (metric === 'share') return `${val}%`;
+        if (metric !== 'total') return `${d3.format(",")(val)} 円`;
         if (val >= 100000) return `${val / 100000} 億円`;
         return `${val / 10} 万円`;
       }))
@@ -165,33 +191,43 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
       .style("font-weight", "500")
       .style("color", "#64748b");
 
-  }, [chartData, uniqueCategoryNames]);
+  }, [chartData, uniqueCategoryNames, metric, stackBy]);
 
   const handleCsvDownload = () => {
-    const headers = ["区", "財源科目", "金額(千円)"];
+    const headers = ["区", LAYER_LABELS[stackBy], METRIC_UNITS[metric]];
     const rows: any[] = [];
     
     chartData.forEach(cityData => {
       if (cityData.total > 0) {
         cityData.categories.forEach(cat => {
-          rows.push([cityData.city, cat.name, cat.value]);
+          rows.push([cityData.city, cat.name, metric === 'total' ? cat.value : Number(cat.value.toFixed(metric === 'share' ? 1 : 0))]);
         });
       }
     });
 
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
-    const blob = new Blob(["\ufeff" + csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `23区観光予算比較_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadCsv([headers, ...rows], `23区${domain.label}予算比較_${LAYER_LABELS[stackBy]}_${COMPARISON_METRIC_LABELS[metric]}_${FISCAL_YEAR_LABELS[fiscalYear]}_${new Date().toISOString().split('T')[0]}.csv`);
   };
 
-  const loadedCount = chartData.filter(d => d.total > 0).length;
+  const loadedCount = rawData.filter(d => d.total > 0).length;
+
+  const exportMeta: ChartExportMeta = useMemo(() => {
+    const legendColor = d3.scaleOrdinal(d3.schemeTableau10).domain(uniqueCategoryNames);
+    const sources = new Map<string, { title: string; uri: string }>();
+    chartData.forEach(d => cache[budgetKey(d.city, fiscalYear, domain.id)]?.sources.forEach(s => sources.set(s.uri, { ...s, title: `${d.city}: ${s.title}` })));
+    return {
+      title,
+      subtitle: `${FISCAL_YEAR_LABELS[fiscalYear]}（取得済み ${loadedCount} / 23 区）`,
+      total: metric === 'total' ? chartData.reduce((sum, d) => sum + d.total, 0) : undefined,
+      formatTotal: formatJapaneseCurrency,
+      sources: Array.from(sources.values()),
+      legend: uniqueCategoryNames.map(name => ({ label: name, color: legendColor(name) as string })),
+      notes: [
+        ...(loadedCount < 23 ? [`未取得の区（${rawData.filter(d => d.total === 0).map(d => d.city).join('・')}）は含まれていません。`] : []),
+        ...(metric === 'perCapita' ? [WARD_STATS_NOTE] : []),
+        ...(metric === 'perVisitor' ? [VISITOR_STATS_NOTE] : []),
+      ],
+    };
+  }, [cache, chartData, rawData, fiscalYear, domain.id, loadedCount, uniqueCategoryNames, title, metric]);
 
   return (
     <div ref={containerRef} className="w-full bg-white rounded-[2rem] p-8 shadow-xl border border-slate-200 animate-in fade-in duration-700">
@@ -199,11 +235,17 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
         <div>
           <div className="flex items-center gap-2 mb-1">
             <BanknotesIcon className="w-6 h-6 text-emerald-600" />
-            <h2 className="text-xl font-bold text-slate-800">23区観光予算 財源内訳（収入科目）比較</h2>
+            <h2 className="text-xl font-bold text-slate-800">{title} <span className="text-emerald-600">{FISCAL_YEAR_LABELS[fiscalYear]}</span></h2>
           </div>
           <p className="text-slate-500 text-sm">
-            取得済み {loadedCount} / 23 区の財源構成を比較しています。バーが隠れている場合は横にスクロールしてください。
+            {FISCAL_YEAR_LABELS[fiscalYear]}を取得済みの {loadedCount} / 23 区の{LAYER_LABELS[stackBy]}構成を比較しています。バーが隠れている場合は横にスクロールしてください。
           </p>
+          {metric === 'perCapita' && (
+            <p className="text-slate-400 text-xs mt-1">{WARD_STATS_NOTE}</p>
+          )}
+          {metric === 'perVisitor' && (
+            <p className="text-slate-400 text-xs mt-1">{VISITOR_STATS_NOTE}</p>
+          )}
         </div>
         <div className="flex items-center gap-3">
           {loadedCount > 0 && (
@@ -215,6 +257,23 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
               <span>比較結果CSV</span>
             </button>
           )}
+          {loadedCount > 0 && (
+            <ChartExportMenu
+              getChart={() => svgRef.current}
+              meta={exportMeta}
+              fileBaseName={`23区${domain.label}予算比較_${FISCAL_YEAR_LABELS[fiscalYear]}_${new Date().toISOString().split('T')[0]}`}
+            />
+          )}
+          {loadedCount > 0 && (
+            <button
+              onClick={() => downloadWorkbook(buildBudgetWorkbook(cache, cities, fiscalYear, domain.id, classify), workbookFileName(fiscalYear, domain.label))}
+              title="23区比較・各区の予算フロー・出典をシートに分けたExcelファイル"
+              className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white rounded-xl text-xs font-bold hover:bg-emerald-700 shadow-lg transition-all hover:scale-105 active:scale-95"
+            >
+              <DocumentArrowDownIcon className="w-4 h-4" />
+              <span>Excel</span>
+            </button>
+          )}
           {loadedCount < 23 && (
             <div className="flex items-center gap-2 px-4 py-2 bg-amber-50 text-amber-700 rounded-xl text-xs font-bold border border-amber-100">
               <InformationCircleIcon className="w-4 h-4" />
@@ -225,6 +284,39 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-xl">
+          {(Object.keys(COMPARISON_METRIC_LABELS) as ComparisonMetric[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onMetricChange(option)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                metric === option ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {COMPARISON_METRIC_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-xl">
+          {COMPARISON_STACKS.map(layer => (
+            <button
+              key={layer}
+              onClick={() => onStackByChange(layer)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                stackBy === layer ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {LAYER_LABELS[layer]}別
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+          <input type="checkbox" checked={useTaxonomy} onChange={(e) => setUseTaxonomy(e.target.checked)} />
+          名称を標準分類にまとめる
+        </label>
+      </div>
+
       {/* Simplified Legend */}
       {uniqueCategoryNames.length > 0 && (
         <div className="flex flex-wrap gap-4 mb-6 px-4 bg-slate-50 p-3 rounded-xl border border-slate-100">
@@ -269,7 +361,7 @@ const BudgetComparisonChart: React.FC<Props> = ({ cache, cities }) => {
               <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">RANK {i+1}</span>
               <span className="text-xs font-bold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full group-hover/card:bg-emerald-600 group-hover/card:text-white transition-colors">{d.city}</span>
             </div>
-            <p className="text-xl font-black text-slate-800">{formatJapaneseCurrency(d.total)}</p>
+            <p className="text-xl font-black text-slate-800">{formatMetricValue(d.total, metric, formatJapaneseCurrency)}</p>
             <div className="mt-2 flex flex-wrap gap-1">
                {d.categories.slice(0, 2).map((cat, idx) => (
                  <span key={idx} className="text-[9px] bg-white px-1.5 py-0.5 rounded border border-slate-200 text-slate-500">
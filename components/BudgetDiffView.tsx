@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BudgetCache, City, FiscalYear } from '../types';
+import { FISCAL_YEARS, FISCAL_YEAR_LABELS } from '../constants';
+import { budgetKey, getCachedYears } from '../services/budgetCache';
+import { buildDiffSankeyData, buildLinkDeltas, diffSankeyData, DiffStatus, NodeDiff } from '../services/budgetDiff';
+import { BudgetLayer, BUDGET_LAYERS, LAYER_LABELS } from '../services/budgetLayers';
+import { NodeClassifier } from '../services/taxonomy';
+import { BudgetDomain } from '../services/budgetDomains';
+import SankeyChart, { deltaColor, formatDelta } from './SankeyChart';
+import { formatJapaneseCurrency } from '../App';
+import { ArrowsUpDownIcon, ChevronUpIcon, ChevronDownIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  cache: BudgetCache;
+  city: City;
+  fiscalYear: FiscalYear;
+  domain: BudgetDomain;
+  classify: NodeClassifier;
+}
+
+type SortColumn = 'name' | 'before' | 'after' | 'delta' | 'deltaPct';
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: '新規',
+  removed: '廃止',
+  increased: '増額',
+  decreased: '減額',
+  unchanged: '変更なし',
+};
+
+const BudgetDiffView: React.FC<Props> = ({ cache, city, fiscalYear, domain, classify }) => {
+  const years = useMemo(() => getCachedYears(cache, city, domain.id), [cache, city, domain.id]);
+  const [compareYear, setCompareYear] = useState<FiscalYear>(fiscalYear);
+  const [baseYear, setBaseYear] = useState<FiscalYear | null>(null);
+  const [layerFilter, setLayerFilter] = useState<BudgetLayer | 'all'>('item');
+  const [hideUnchanged, setHideUnchanged] = useState(true);
+  const [sort, setSort] = useState<{ column: SortColumn; desc: boolean }>({ column: 'delta', desc: true });
+
+  // Default to the selected year against the closest earlier snapshot
+  useEffect(() => {
+    const target = years.includes(fiscalYear) ? fiscalYear : years[years.length - 1];
+    if (!target) return;
+    const earlier = years.filter(y => FISCAL_YEARS.indexOf(y) < FISCAL_YEARS.indexOf(target));
+    setCompareYear(target);
+    setBaseYear(earlier.length > 0 ? earlier[earlier.length - 1] : years.find(y => y !== target) || null);
+  }, [years, fiscalYear]);
+
+  const base = baseYear ? cache[budgetKey(city, baseYear, domain.id)] : undefined;
+  const next = cache[budgetKey(city, compareYear, domain.id)];
+
+  const diff = useMemo(() => (base && next ? diffSankeyData(base.data, next.data) : null), [base, next]);
+  const diffGraph = useMemo(() => (diff ? buildDiffSankeyData(diff) : null), [diff]);
+  const linkDeltas = useMemo(() => (diff ? buildLinkDeltas(diff) : undefined), [diff]);
+
+  const rows = useMemo(() => {
+    if (!diff) return [];
+    const filtered = diff.nodes.filter(n =>
+      (layerFilter === 'all' || n.layer === layerFilter) && (!hideUnchanged || n.status !== 'unchanged')
+    );
+    const valueOf = (n: NodeDiff): number | string => {
+      if (sort.column === 'name') return n.name;
+      // Magnitude is what matters when ranking the biggest changes
+      if (sort.column === 'delta') return Math.abs(n.delta);
+      if (sort.column === 'deltaPct') return n.deltaPct === null ? Infinity : Math.abs(n.deltaPct);
+      return n[sort.column];
+    };
+    return [...filtered].sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      const cmp = typeof va === 'string' ? va.localeCompare(vb as string, 'ja') : va - (vb as number);
+      return sort.desc ? -cmp : cmp;
+    });
+  }, [diff, layerFilter, hideUnchanged, sort]);
+
+  const counts = useMemo(() => {
+    const result: Record<DiffStatus, number> = { added: 0, removed: 0, increased: 0, decreased: 0, unchanged: 0 };
+    diff?.nodes.filter(n => n.layer === 'item').forEach(n => { result[n.status]++; });
+    return result;
+  }, [diff]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(prev => ({ column, desc: prev.column === column ? !prev.desc : true }));
+  };
+
+  if (years.length < 2) {
+    return (
+      <div className="max-w-2xl mx-auto bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center">
+        <InformationCircleIcon className="w-16 h-16 text-slate-300 mx-auto mb-4" />
+        <p className="text-lg font-bold text-slate-600">比較できる年度がありません</p>
+        <p className="text-slate-400 text-sm mt-2">
+          {city}の予算を2つ以上の年度で取得すると、年度間の増減を比較できます。
+        </p>
+      </div>
+    );
+  }
+
+  const sortHeader = (column: SortColumn, label: string, align = 'text-right') => (
+    <th className={`px-3 py-2 ${align}`}>
+      <button onClick={() => toggleSort(column)} className="inline-flex items-center gap-1 font-bold hover:text-emerald-700">
+        {label}
+        {sort.column === column
+          ? (sort.desc ? <ChevronDownIcon className="w-3 h-3" /> : <ChevronUpIcon className="w-3 h-3" />)
+          : <ArrowsUpDownIcon className="w-3 h-3 opacity-30" />}
+      </button>
+    </th>
+  );
+
+  const totalDelta = diff ? diff.totalAfter - diff.totalBefore : 0;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-700">
+      <div className="flex flex-wrap items-center gap-4 bg-white p-4 rounded-2xl border border-slate-200 shadow-sm text-sm">
+        <span className="font-bold text-slate-700">{city} 年度間比較</span>
+        <select
+          value={baseYear || ''}
+          onChange={(e) => setBaseYear(e.target.value as FiscalYear)}
+          className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-bold"
+        >
+          {years.map(y => <option key={y} value={y}>{FISCAL_YEAR_LABELS[y]}</option>)}
+        </select>
+        <span className="text-slate-400">→</span>
+        <select
+          value={compareYear}
+          onChange={(e) => setCompareYear(e.target.value as FiscalYear)}
+          className="px-2 py-1 rounded-lg border border-slate-200 text-xs font-bold"
+        >
+          {years.map(y => <option key={y} value={y}>{FISCAL_YEAR_LABELS[y]}</option>)}
+        </select>
+        {diff && (
+          <div className="flex items-center gap-4 ml-auto text-xs">
+            <span>総額: {formatJapaneseCurrency(diff.totalBefore)} → <b>{formatJapaneseCurrency(diff.totalAfter)}</b></span>
+            <span className="font-bold" style={{ color: deltaColor(totalDelta >= 0 ? 'increased' : 'decreased', 100) }}>
+              {formatDelta(totalDelta, diff.totalBefore ? (totalDelta / diff.totalBefore) * 100 : null)}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {!diff || baseYear === compareYear ? (
+        <p className="text-center text-slate-400 text-sm py-12">異なる2つの年度を選択してください。</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 text-xs font-bold">
+            {(['added', 'removed', 'increased', 'decreased'] as DiffStatus[]).map(status => (
+              <span key={status} className="flex items-center gap-1.5 px-3 py-1 bg-white rounded-lg border border-slate-200">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: deltaColor(status, 100) }}></span>
+                {STATUS_LABELS[status]}の細目: {counts[status]}
+              </span>
+            ))}
+          </div>
+
+          {diffGraph && diffGraph.links.length > 0 && (
+            <SankeyChart
+              data={diffGraph}
+              city={city}
+              fiscalYear={compareYear}
+              domainLabel={domain.label}
+              linkDeltas={linkDeltas}
+              classify={classify}
+              exportTitle={`${city} ${domain.scope} 年度比較（${FISCAL_YEAR_LABELS[baseYear!]} → ${FISCAL_YEAR_LABELS[compareYear]}）`}
+              sources={[...(base?.sources || []), ...(next?.sources || [])]}
+            />
+          )}
+
+          <div className="bg-white p-6 rounded-[2rem] shadow-lg border border-slate-200">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-lg font-bold text-slate-800">増減の大きい項目</h2>
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <select
+                  value={layerFilter}
+                  onChange={(e) => setLayerFilter(e.target.value as BudgetLayer | 'all')}
+                  className="px-2 py-1 rounded-lg border border-slate-200 font-bold"
+                >
+                  <option value="all">全階層</option>
+                  {BUDGET_LAYERS.map(layer => <option key={layer} value={layer}>{LAYER_LABELS[layer]}</option>)}
+                </select>
+                <label className="flex items-center gap-1 text-slate-500">
+                  <input type="checkbox" checked={hideUnchanged} onChange={(e) => setHideUnchanged(e.target.checked)} />
+                  変更なしを隠す
+                </label>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="text-slate-500 border-b border-slate-200">
+                  <tr>
+                    {sortHeader('name', '項目', 'text-left')}
+                    <th className="px-3 py-2 text-left">階層</th>
+                    {sortHeader('before', FISCAL_YEAR_LABELS[baseYear!])}
+                    {sortHeader('after', FISCAL_YEAR_LABELS[compareYear])}
+                    {sortHeader('delta', '増減額')}
+                    {sortHeader('deltaPct', '増減率')}
+                    <th className="px-3 py-2 text-center">状態</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b border-slate-50 hover:bg-slate-50">
+                      <td className="px-3 py-2 font-bold text-slate-700">{row.name}</td>
+                      <td className="px-3 py-2 text-slate-400">{row.layer ? LAYER_LABELS[row.layer] : '-'}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{row.before.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{row.after.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right tabular-nums font-bold" style={{ color: deltaColor(row.status, row.deltaPct) }}>
+                        {row.delta > 0 ? '+' : ''}{row.delta.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-right tabular-nums">
+                        {row.deltaPct === null ? '-' : `${row.deltaPct > 0 ? '+' : ''}${row.deltaPct.toFixed(1)}%`}
+                      </td>
+                      <td className="px-3 py-2 text-center">
+                        <span className="px-2 py-0.5 rounded-full text-white text-[10px] font-bold" style={{ backgroundColor: deltaColor(row.status, 100) }}>
+                          {STATUS_LABELS[row.status]}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length === 0 && <p className="text-center text-slate-400 py-8">該当する項目はありません。</p>}
+              <p className="text-[10px] text-slate-400 mt-3">金額の単位は千円です。項目は階層と名称で年度間を対応付けています。</p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BudgetDiffView;
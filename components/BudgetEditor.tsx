@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CachedBudget, SankeyData, SankeyLink } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { BUDGET_LAYERS, BudgetLayer, LAYER_LABELS, getLayer } from '../services/budgetLayers';
+import { FindingSeverity, validateBudget } from '../services/budgetValidator';
+import {
+  EditHistory,
+  addLink,
+  addNode,
+  countManualEdits,
+  createHistory,
+  deleteLink,
+  deleteNode,
+  pushEdit,
+  redo,
+  renameNode,
+  reparentLink,
+  setLinkValue,
+  sourceCandidates,
+  undo,
+} from '../services/budgetEditor';
+import {
+  PencilSquareIcon,
+  XMarkIcon,
+  ArrowUturnLeftIcon,
+  ArrowUturnRightIcon,
+  TrashIcon,
+  PlusIcon,
+  XCircleIcon,
+  ExclamationTriangleIcon,
+} from '@heroicons/react/24/outline';
+
+interface Props {
+  budget: CachedBudget;
+  onSave: (data: SankeyData) => void;
+  onClose: () => void;
+}
+
+const linkKey = (link: Pick<SankeyLink, 'source' | 'target'>) => `${link.source}\u0000${link.target}`;
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  error: 'text-red-700',
+  warning: 'text-amber-700',
+  info: 'text-slate-500',
+};
+
+const ManualBadge = () => (
+  <span className="px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-[10px] font-bold whitespace-nowrap">手動修正</span>
+);
+
+const BudgetEditor: React.FC<Props> = ({ budget, onSave, onClose }) => {
+  const [history, setHistory] = useState<EditHistory>(() => createHistory(budget.data));
+  const [newNodeNames, setNewNodeNames] = useState<Partial<Record<BudgetLayer, string>>>({});
+  const [newLink, setNewLink] = useState({ source: '', target: '', value: '' });
+  const data = history.present;
+
+  const report = useMemo(() => validateBudget(data, budget.explanation), [data, budget.explanation]);
+  const problems = report.findings.filter(f => f.severity !== 'info');
+  // Rows mentioned by a finding are tinted so the cause is easy to spot
+  const flaggedNodes = new Set(problems.flatMap(f => f.nodeIds || []));
+  const flaggedLinks = new Set(problems.flatMap(f => (f.link ? [linkKey(f.link)] : [])));
+
+  const nameOf = (id: string) => data.nodes.find(n => n.id === id)?.name || id;
+  const dirty = history.past.length > 0;
+
+  const apply = (edit: (current: SankeyData) => SankeyData) => {
+    try {
+      setHistory(pushEdit(history, edit(history.present)));
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Inputs keep their own text undo
+      if (e.target instanceof HTMLInputElement) return;
+      e.preventDefault();
+      setHistory(prev => (e.shiftKey ? redo(prev) : undo(prev)));
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  const handleClose = () => {
+    if (dirty && !confirm('保存していない修正があります。破棄して閉じますか？')) return;
+    onClose();
+  };
+
+  const handleAddNode = (layer: BudgetLayer) => {
+    const name = newNodeNames[layer] || '';
+    apply(current => addNode(current, layer, name));
+    if (name.trim()) setNewNodeNames(prev => ({ ...prev, [layer]: '' }));
+  };
+
+  const handleDeleteNode = (id: string) => {
+    const linked = data.links.filter(l => l.source === id || l.target === id).length;
+    if (linked > 0 && !confirm(`「${nameOf(id)}」と、つながっている ${linked} 件のリンクを削除しますか？`)) return;
+    apply(current => deleteNode(current, id));
+  };
+
+  const handleValueChange = (link: SankeyLink, raw: string) => {
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isFinite(value)) return alert('金額は千円単位の数値で入力してください。');
+    if (value !== link.value) apply(current => setLinkValue(current, link, value));
+  };
+
+  const handleAddLink = () => {
+    const value = Number(newLink.value);
+    if (!newLink.source || !newLink.target) return alert('流出元と流入先を選んでください。');
+    if (newLink.value.trim() === '' || !Number.isFinite(value)) return alert('金額は千円単位の数値で入力してください。');
+    apply(current => addLink(current, newLink.source, newLink.target, value));
+    setNewLink({ source: '', target: '', value: '' });
+  };
+
+  const sortedLinks = useMemo(
+    () => [...data.links].sort((a, b) =>
+      BUDGET_LAYERS.indexOf(getLayer(a.target)!) - BUDGET_LAYERS.indexOf(getLayer(b.target)!)
+      || nameOf(a.target).localeCompare(nameOf(b.target), 'ja')),
+    [data]
+  );
+
+  const newLinkSourceLayer = getLayer(newLink.source);
+  const newLinkTargets = newLinkSourceLayer
+    ? data.nodes.filter(n => getLayer(n.id) === BUDGET_LAYERS[BUDGET_LAYERS.indexOf(newLinkSourceLayer) + 1])
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between gap-4 p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <PencilSquareIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-lg font-bold text-slate-800">
+              予算データの手動修正 <span className="text-emerald-600">{budget.city} {FISCAL_YEAR_LABELS[budget.fiscalYear]}</span>
+            </h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setHistory(undo)}
+              disabled={history.past.length === 0}
+              title="元に戻す（Ctrl+Z）"
+              className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-30"
+            >
+              <ArrowUturnLeftIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setHistory(redo)}
+              disabled={history.future.length === 0}
+              title="やり直す（Ctrl+Shift+Z）"
+              className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-30"
+            >
+              <ArrowUturnRightIcon className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => onSave(data)}
+              disabled={!dirty}
+              className="px-4 py-2 bg-emerald-600 text-white rounded-xl text-sm font-bold hover:bg-emerald-700 disabled:opacity-40"
+            >
+              保存
+            </button>
+            <button onClick={handleClose} className="p-1 text-slate-400 hover:text-slate-700">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 p-6 overflow-y-auto">
+          <div className="lg:col-span-2 space-y-6">
+            <section>
+              <h3 className="text-sm font-bold text-slate-700 mb-2">ノード</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {BUDGET_LAYERS.map(layer => (
+                  <div key={layer} className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                    <p className="text-xs font-bold text-slate-500 mb-2">{LAYER_LABELS[layer]}</p>
+                    <ul className="space-y-1">
+                      {data.nodes.filter(n => getLayer(n.id) === layer).map(node => (
+                        <li key={node.id} className={`flex items-center gap-1.5 rounded-lg ${flaggedNodes.has(node.id) ? 'bg-amber-50' : ''}`}>
+                          <input
+                            // Remounted when the name changes so undo shows the restored text
+                            key={node.name}
+                            defaultValue={node.name}
+                            onBlur={(e) => {
+                              if (e.target.value.trim() !== node.name) apply(current => renameNode(current, node.id, e.target.value));
+                            }}
+                            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                            className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-200 text-xs bg-white"
+                          />
+                          {node.manual && <ManualBadge />}
+                          <button onClick={() => handleDeleteNode(node.id)} title="削除" className="p-1 text-slate-400 hover:text-red-600">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                    <div className="flex items-center gap-1.5 mt-2">
+                      <input
+                        value={newNodeNames[layer] || ''}
+                        onChange={(e) => setNewNodeNames(prev => ({ ...prev, [layer]: e.target.value }))}
+                        onKeyDown={(e) => e.key === 'Enter' && handleAddNode(layer)}
+                        placeholder={`${LAYER_LABELS[layer]}を追加`}
+                        className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-dashed border-slate-300 text-xs bg-white"
+                      />
+                      <button onClick={() => handleAddNode(layer)} title="追加" className="p-1 text-slate-400 hover:text-emerald-600">
+                        <PlusIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-bold text-slate-700 mb-2">リンク（金額は千円）</h3>
+              <table className="w-full text-xs">
+                <thead className="text-slate-500 border-b border-slate-200">
+                  <tr>
+                    <th className="px-2 py-2 text-left">流出元</th>
+                    <th className="px-2 py-2 text-left">流入先</th>
+                    <th className="px-2 py-2 text-right">金額</th>
+                    <th className="px-2 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedLinks.map(link => {
+                    const candidates = sourceCandidates(data, link.target);
+                    return (
+                      <tr key={linkKey(link)} className={`border-b border-slate-50 ${flaggedLinks.has(linkKey(link)) ? 'bg-amber-50' : ''}`}>
+                        <td className="px-2 py-1.5">
+                          <select
+                            value={link.source}
+                            onChange={(e) => apply(current => reparentLink(current, link, e.target.value))}
+                            className="w-full px-2 py-1 rounded-lg border border-slate-200"
+                          >
+                            {!candidates.some(n => n.id === link.source) && <option value={link.source}>{nameOf(link.source)}（階層外）</option>}
+                            {candidates.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                          </select>
+                        </td>
+                        <td className="px-2 py-1.5 font-bold text-slate-700">{nameOf(link.target)}</td>
+                        <td className="px-2 py-1.5">
+                          <input
+                            key={link.value}
+                            type="number"
+                            defaultValue={link.value}
+                            onBlur={(e) => handleValueChange(link, e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                            className="w-28 px-2 py-1 rounded-lg border border-slate-200 text-right"
+                          />
+                        </td>
+                        <td className="px-2 py-1.5">
+                          <div className="flex items-center justify-end gap-1.5">
+                            {link.manual && <ManualBadge />}
+                            <button onClick={() => apply(current => deleteLink(current, link))} title="削除" className="p-1 text-slate-400 hover:text-red-600">
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td className="px-2 py-2">
+                      <select
+                        value={newLink.source}
+                        onChange={(e) => setNewLink({ ...newLink, source: e.target.value, target: '' })}
+                        className="w-full px-2 py-1 rounded-lg border border-dashed border-slate-300"
+                      >
+                        <option value="">流出元を選択</option>
+                        {BUDGET_LAYERS.slice(0, -1).map(layer => (
+                          <optgroup key={layer} label={LAYER_LABELS[layer]}>
+                            {data.nodes.filter(n => getLayer(n.id) === layer).map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                          </optgroup>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <select
+                        value={newLink.target}
+                        onChange={(e) => setNewLink({ ...newLink, target: e.target.value })}
+                        disabled={!newLink.source}
+                        className="w-full px-2 py-1 rounded-lg border border-dashed border-slate-300 disabled:opacity-40"
+                      >
+                        <option value="">流入先を選択</option>
+                        {newLinkTargets.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-2 py-2">
+                      <input
+                        type="number"
+                        value={newLink.value}
+                        onChange={(e) => setNewLink({ ...newLink, value: e.target.value })}
+                        placeholder="千円"
+                        className="w-28 px-2 py-1 rounded-lg border border-dashed border-slate-300 text-right"
+                      />
+                    </td>
+                    <td className="px-2 py-2 text-right">
+                      <button onClick={handleAddLink} title="リンクを追加" className="p-1 text-slate-400 hover:text-emerald-600">
+                        <PlusIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </section>
+          </div>
+
+          <aside className="space-y-3">
+            <div className="p-3 rounded-xl border border-slate-200 bg-slate-50 text-xs space-y-1">
+              <p className="font-bold text-slate-700">
+                エラー {problems.filter(f => f.severity === 'error').length} 件・警告 {problems.filter(f => f.severity === 'warning').length} 件
+              </p>
+              <p className="text-slate-500">財源合計 {report.revenueTotal.toLocaleString()} 千円 / 細目合計 {report.itemTotal.toLocaleString()} 千円</p>
+              <p className="text-slate-500">手動修正 {countManualEdits(data)} 件</p>
+            </div>
+            <h3 className="text-sm font-bold text-slate-700">4階層ルールの検証</h3>
+            {problems.length === 0 ? (
+              <p className="text-xs text-slate-400 italic">問題は見つかりません。</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {problems.map((finding, idx) => (
+                  <li key={idx} className={`flex gap-1.5 text-xs leading-relaxed ${SEVERITY_STYLES[finding.severity]}`}>
+                    {finding.severity === 'error'
+                      ? <XCircleIcon className="w-4 h-4 shrink-0" />
+                      : <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />}
+                    {finding.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetEditor;
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { BudgetCache } from '../types';
+import { ParsedBundle, BundleImportMode, summarizeBundleImport } from '../services/workspaceBundle';
+import { ArchiveBoxArrowDownIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  fileName: string;
+  bundle: ParsedBundle;
+  cache: BudgetCache;
+  onApply: (mode: BundleImportMode) => void;
+  onClose: () => void;
+}
+
+const MODE_DESCRIPTIONS: Record<BundleImportMode, { label: string; description: string }> = {
+  merge: {
+    label: '統合する',
+    description: '手元にないデータを追加し、同じ区・年度は更新日時が新しい方を現在の版にします。古い方も履歴に残ります。',
+  },
+  replace: {
+    label: '置き換える',
+    description: '手元のデータを全て削除し、ファイルの内容だけにします。',
+  },
+};
+
+// Keys are "区:年度"; a short list reads better than a bare count
+const keyList = (keys: string[]) => (keys.length > 8 ? `${keys.slice(0, 8).join('、')} ほか${keys.length - 8}件` : keys.join('、'));
+
+const BundleImportDialog: React.FC<Props> = ({ fileName, bundle, cache, onApply, onClose }) => {
+  const [mode, setMode] = useState<BundleImportMode>('merge');
+  const summary = useMemo(() => summarizeBundleImport(cache, bundle.budgets), [cache, bundle]);
+  const incomingCount = Object.keys(bundle.budgets).length;
+  const overrideCount = Object.keys(bundle.taxonomyOverrides).length;
+
+  const rows: { label: string; keys: string[]; tone: string }[] = mode === 'merge'
+    ? [
+        { label: '追加', keys: summary.added, tone: 'text-emerald-700' },
+        { label: '更新（ファイルの方が新しい）', keys: summary.newer, tone: 'text-amber-700' },
+        { label: '手元を維持（ファイルの版は履歴に追加）', keys: summary.older, tone: 'text-slate-500' },
+      ]
+    : [
+        { label: '読み込み', keys: Object.keys(bundle.budgets), tone: 'text-emerald-700' },
+        { label: '削除（ファイルにない手元のデータ）', keys: summary.removed, tone: 'text-red-700' },
+      ];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 min-w-0">
+            <ArchiveBoxArrowDownIcon className="w-6 h-6 text-indigo-600 shrink-0" />
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-slate-800">ワークスペースの読み込み</h2>
+              <p className="text-xs text-slate-500 truncate">
+                {fileName}（{incomingCount} 件・{new Date(bundle.exportedAt).toLocaleString()} 出力）
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <fieldset className="space-y-2">
+            {(Object.keys(MODE_DESCRIPTIONS) as BundleImportMode[]).map(id => (
+              <label
+                key={id}
+                className={`flex gap-3 p-3 rounded-xl border cursor-pointer transition-all ${
+                  mode === id ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <input type="radio" name="bundle-mode" checked={mode === id} onChange={() => setMode(id)} className="mt-1" />
+                <div>
+                  <p className="text-sm font-bold text-slate-700">{MODE_DESCRIPTIONS[id].label}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">{MODE_DESCRIPTIONS[id].description}</p>
+                </div>
+              </label>
+            ))}
+          </fieldset>
+
+          <ul className="space-y-2 text-xs">
+            {rows.map(row => (
+              <li key={row.label}>
+                <span className={`font-bold ${row.tone}`}>{row.label}: {row.keys.length} 件</span>
+                {row.keys.length > 0 && <p className="text-slate-400 mt-0.5">{keyList(row.keys)}</p>}
+              </li>
+            ))}
+          </ul>
+
+          {(bundle.customDomains.length > 0 || overrideCount > 0) && (
+            <p className="text-xs text-slate-500">
+              独自の分野 {bundle.customDomains.length} 件・分類の対応 {overrideCount} 件も
+              {mode === 'merge' ? '、手元にないものだけ追加します。' : '読み込み、手元の設定と置き換えます。'}
+            </p>
+          )}
+
+          {bundle.rejected.length > 0 && (
+            <p className="flex items-start gap-1.5 p-3 bg-amber-50 rounded-xl border border-amber-100 text-xs text-amber-800">
+              <ExclamationTriangleIcon className="w-4 h-4 shrink-0" />
+              形式が正しくないため読み込まれないデータ: {keyList(bundle.rejected)}
+            </p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded-xl">
+            キャンセル
+          </button>
+          <button
+            onClick={() => {
+              if (mode === 'replace' && summary.removed.length > 0 && !confirm(`手元の ${summary.removed.length} 件が削除されます。よろしいですか？`)) return;
+              onApply(mode);
+            }}
+            className="px-4 py-2 text-sm font-bold bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg"
+          >
+            {MODE_DESCRIPTIONS[mode].label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BundleImportDialog;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import {
+  ChartExportMeta,
+  PaperSize,
+  PAPER_SIZES,
+  PNG_DPI_OPTIONS,
+  exportChartPdf,
+  exportChartPng,
+} from '../services/chartExport';
+import { PhotoIcon, DocumentIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  getChart: () => SVGSVGElement | null;
+  meta: ChartExportMeta;
+  fileBaseName: string;
+}
+
+const ChartExportMenu: React.FC<Props> = ({ getChart, meta, fileBaseName }) => {
+  const [open, setOpen] = useState(false);
+  const [dpi, setDpi] = useState(150);
+  const [paper, setPaper] = useState<PaperSize>('A4');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (task: (chart: SVGSVGElement) => Promise<void>) => {
+    const chart = getChart();
+    if (!chart) return;
+    setBusy(true);
+    try {
+      await task(chart);
+      setOpen(false);
+    } catch (err: any) {
+      console.error(err);
+      alert(err?.message || '書き出しに失敗しました。');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold hover:bg-slate-800 shadow-lg transition-transform hover:scale-105 active:scale-95"
+      >
+        <PhotoIcon className="w-4 h-4" />
+        <span>画像・PDF</span>
+        <ChevronDownIcon className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-white rounded-xl shadow-2xl border border-slate-200 p-4 space-y-4 z-30 text-xs text-slate-600">
+          <p className="text-slate-400">タイトル・総額・出典・注記を含めて書き出します。</p>
+          <div className="space-y-2">
+            <label className="flex items-center justify-between gap-2">
+              <span className="font-bold">PNG 解像度</span>
+              <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className="px-2 py-1 rounded-lg border border-slate-200">
+                {PNG_DPI_OPTIONS.map(option => <option key={option} value={option}>{option} dpi</option>)}
+              </select>
+            </label>
+            <button
+              disabled={busy}
+              onClick={() => run(chart => exportChartPng(chart, meta, dpi, fileBaseName))}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 text-white rounded-lg font-bold hover:bg-emerald-700 disabled:opacity-40"
+            >
+              <PhotoIcon className="w-4 h-4" />
+              PNGで保存
+            </button>
+          </div>
+          <div className="space-y-2 border-t border-slate-100 pt-4">
+            <label className="flex items-center justify-between gap-2">
+              <span className="font-bold">PDF 用紙（横）</span>
+              <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSize)} className="px-2 py-1 rounded-lg border border-slate-200">
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            <button
+              disabled={busy}
+              onClick={() => run(chart => exportChartPdf(chart, meta, paper, fileBaseName))}
+              className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-900 text-white rounded-lg font-bold hover:bg-slate-800 disabled:opacity-40"
+            >
+              <DocumentIcon className="w-4 h-4" />
+              PDFで保存
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartExportMenu;
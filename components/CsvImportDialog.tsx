@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { BudgetCache, City, FiscalYear } from '../types';
+import { CITIES, FISCAL_YEARS, FISCAL_YEAR_LABELS } from '../constants';
+import {
+  ColumnMapping,
+  CsvField,
+  CSV_FIELDS,
+  CSV_FIELD_LABELS,
+  ImportGroup,
+  buildImportPreview,
+  guessMapping,
+  missingRequiredFields,
+} from '../services/budgetCsv';
+import { formatJapaneseCurrency } from '../App';
+import { ArrowUpTrayIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  fileName: string;
+  rows: string[][];
+  cache: BudgetCache;
+  defaultCity: City;
+  defaultYear: FiscalYear;
+  // Domain id every imported ward is filed under
+  domain: string;
+  onApply: (groups: ImportGroup[]) => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED_ERRORS = 50;
+
+const CsvImportDialog: React.FC<Props> = ({ fileName, rows, cache, defaultCity, defaultYear, domain, onApply, onClose }) => {
+  const header = rows[0] || [];
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(header));
+  // Files exported from a single ward's chart have no 自治体名 / 年度 columns
+  const [fallbackCity, setFallbackCity] = useState<City>(defaultCity);
+  const [fallbackYear, setFallbackYear] = useState<FiscalYear>(defaultYear);
+
+  const missing = missingRequiredFields(mapping);
+  const preview = useMemo(
+    () => (missing.length > 0 ? null : buildImportPreview(rows, mapping, { city: fallbackCity, fiscalYear: fallbackYear, domain }, cache)),
+    [rows, mapping, fallbackCity, fallbackYear, domain, cache, missing.length]
+  );
+  const replacing = preview ? preview.groups.filter(g => g.replaces).length : 0;
+
+  const setColumn = (field: CsvField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  const handleApply = () => {
+    if (!preview || preview.groups.length === 0) return;
+    if (replacing > 0 && !confirm(`${replacing} 件の既存データを置き換えます。よろしいですか？`)) return;
+    onApply(preview.groups);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2 min-w-0">
+            <ArrowUpTrayIcon className="w-6 h-6 text-indigo-600 shrink-0" />
+            <div className="min-w-0">
+              <h2 className="text-lg font-bold text-slate-800">CSVインポートの確認</h2>
+              <p className="text-xs text-slate-500 truncate">{fileName}（{Math.max(0, rows.length - 1)} 行）</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <section>
+            <h3 className="text-xs font-bold text-slate-500 mb-2">列の対応付け</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {CSV_FIELDS.map(field => (
+                <label key={field} className="text-xs text-slate-500 space-y-1">
+                  <span className="block font-bold">{CSV_FIELD_LABELS[field]}</span>
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => setColumn(field, e.target.value)}
+                    className={`w-full px-2 py-1.5 rounded-lg border text-sm ${missing.includes(field) ? 'border-red-300 bg-red-50' : 'border-slate-200'}`}
+                  >
+                    <option value="">（なし）</option>
+                    {header.map((name, idx) => (
+                      <option key={idx} value={idx}>{idx + 1}列目: {name || '(空)'}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-4 mt-3 text-xs text-slate-500">
+              {mapping.city === null && (
+                <label className="flex items-center gap-2">
+                  自治体名の列がない行:
+                  <select value={fallbackCity} onChange={(e) => setFallbackCity(e.target.value as City)} className="px-2 py-1 rounded-lg border border-slate-200 text-sm">
+                    {CITIES.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                年度が空の行:
+                <select value={fallbackYear} onChange={(e) => setFallbackYear(e.target.value as FiscalYear)} className="px-2 py-1 rounded-lg border border-slate-200 text-sm">
+                  {FISCAL_YEARS.map(y => <option key={y} value={y}>{FISCAL_YEAR_LABELS[y]}</option>)}
+                </select>
+              </label>
+            </div>
+            {missing.length > 0 && (
+              <p className="mt-3 text-xs font-bold text-red-600">
+                次の項目に対応する列を選択してください: {missing.map(f => CSV_FIELD_LABELS[f]).join('、')}
+                {missing.includes('value') && '（金額(千円)または金額(表示用)）'}
+              </p>
+            )}
+          </section>
+
+          {preview && (
+            <section>
+              <h3 className="text-xs font-bold text-slate-500 mb-2">
+                反映されるデータ: {preview.groups.length} 件（新規 {preview.groups.length - replacing} / 置き換え {replacing}）
+              </h3>
+              <table className="w-full text-xs">
+                <thead className="text-slate-500 border-b border-slate-200">
+                  <tr>
+                    <th className="px-3 py-2 text-left">区</th>
+                    <th className="px-3 py-2 text-left">年度</th>
+                    <th className="px-3 py-2 text-right">行数</th>
+                    <th className="px-3 py-2 text-right">財源合計</th>
+                    <th className="px-3 py-2 text-left">反映内容</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.groups.map(group => (
+                    <tr key={group.key} className="border-b border-slate-50">
+                      <td className="px-3 py-2 font-bold text-slate-700">{group.city}</td>
+                      <td className="px-3 py-2">{FISCAL_YEAR_LABELS[group.fiscalYear]}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{group.links.length}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">{formatJapaneseCurrency(group.total)}</td>
+                      <td className="px-3 py-2">
+                        {group.replaces ? (
+                          <span className="text-amber-700 font-bold">
+                            置き換え（{new Date(group.replaces.timestamp).toLocaleDateString()}取得・{group.replaces.data.links.length} リンク）
+                          </span>
+                        ) : (
+                          <span className="text-emerald-700 font-bold">新規</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.groups.length === 0 && <p className="text-center text-slate-400 py-6">取り込める行がありません。</p>}
+            </section>
+          )}
+
+          {preview && preview.errors.length > 0 && (
+            <section className="p-4 bg-red-50 rounded-xl border border-red-100">
+              <h3 className="flex items-center gap-1.5 text-xs font-bold text-red-700 mb-2">
+                <ExclamationTriangleIcon className="w-4 h-4" />
+                取り込まれない行: {preview.errors.length} 行
+              </h3>
+              <ul className="space-y-1 text-xs text-red-800 max-h-48 overflow-y-auto">
+                {preview.errors.slice(0, MAX_LISTED_ERRORS).map(err => (
+                  <li key={err.row}><span className="font-bold tabular-nums">{err.row}行目</span>: {err.message}</li>
+                ))}
+                {preview.errors.length > MAX_LISTED_ERRORS && <li className="text-red-500">…ほか {preview.errors.length - MAX_LISTED_ERRORS} 行</li>}
+              </ul>
+            </section>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-bold text-slate-600 hover:bg-slate-100 rounded-xl">
+            キャンセル
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!preview || preview.groups.length === 0}
+            className="px-4 py-2 text-sm font-bold bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 shadow-lg disabled:opacity-40"
+          >
+            {preview?.groups.length || 0} 件をインポート
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
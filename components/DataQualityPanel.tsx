@@ -0,0 +1,75 @@
+import React, { useMemo, useState } from 'react';
+import { FindingKind, FindingSeverity, FINDING_LABELS, TrustLevel, ValidationReport } from '../services/budgetValidator';
+import { ShieldCheckIcon, ExclamationTriangleIcon, XCircleIcon, InformationCircleIcon, ChevronDownIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  report: ValidationReport;
+}
+
+const TRUST_STYLES: Record<TrustLevel, { label: string; description: string; className: string }> = {
+  high: { label: '信頼度: 高', description: '構造上の問題は見つかりませんでした。', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  medium: { label: '信頼度: 中', description: '軽微な不整合があります。引用前に原資料と照合してください。', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  low: { label: '信頼度: 低', description: '重大な不整合があります。数値をそのまま引用しないでください。', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+const SEVERITY_ICONS: Record<FindingSeverity, React.ReactNode> = {
+  error: <XCircleIcon className="w-4 h-4 text-red-500 shrink-0" />,
+  warning: <ExclamationTriangleIcon className="w-4 h-4 text-amber-500 shrink-0" />,
+  info: <InformationCircleIcon className="w-4 h-4 text-slate-400 shrink-0" />,
+};
+
+const DataQualityPanel: React.FC<Props> = ({ report }) => {
+  const [expanded, setExpanded] = useState<FindingKind | null>(null);
+  const trust = TRUST_STYLES[report.trust];
+
+  const groups = useMemo(() => {
+    const map = new Map<FindingKind, typeof report.findings>();
+    report.findings.forEach(f => map.set(f.kind, [...(map.get(f.kind) || []), f]));
+    const rank: Record<FindingSeverity, number> = { error: 0, warning: 1, info: 2 };
+    return Array.from(map.entries()).sort((a, b) => rank[a[1][0].severity] - rank[b[1][0].severity]);
+  }, [report]);
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] shadow-lg border border-slate-200">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheckIcon className="w-6 h-6 text-emerald-600" />
+        <h2 className="text-lg font-bold text-slate-800">データ品質</h2>
+      </div>
+      <div className={`p-3 rounded-xl border text-xs mb-4 ${trust.className}`}>
+        <p className="font-bold">{trust.label}</p>
+        <p className="mt-1 opacity-80">{trust.description}</p>
+      </div>
+      {groups.length === 0 ? (
+        <p className="text-xs text-slate-400 px-3 italic">検出事項はありません。</p>
+      ) : (
+        <ul className="space-y-2">
+          {groups.map(([kind, findings]) => (
+            <li key={kind} className="rounded-xl bg-slate-50 border border-slate-100">
+              <button
+                onClick={() => setExpanded(expanded === kind ? null : kind)}
+                className="w-full flex items-center gap-2 p-3 text-left"
+              >
+                {SEVERITY_ICONS[findings[0].severity]}
+                <span className="text-sm font-bold text-slate-700 flex-1">{FINDING_LABELS[kind]}</span>
+                <span className="text-xs font-bold text-slate-400">{findings.length}</span>
+                <ChevronDownIcon className={`w-4 h-4 text-slate-400 transition-transform ${expanded === kind ? 'rotate-180' : ''}`} />
+              </button>
+              {expanded === kind && (
+                <ul className="px-3 pb-3 space-y-1.5">
+                  {findings.map((f, idx) => (
+                    <li key={idx} className="text-xs text-slate-600 leading-relaxed border-l-2 border-slate-200 pl-2">{f.message}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="text-[10px] text-slate-400 mt-4">
+        財源合計 {report.revenueTotal.toLocaleString()} 千円 / 細目合計 {report.itemTotal.toLocaleString()} 千円
+      </p>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ExtractionAttempt } from '../types';
+import { ChatBubbleLeftRightIcon, ChevronDownIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  attempts: ExtractionAttempt[];
+}
+
+const ExtractionTranscript: React.FC<Props> = ({ attempts }) => {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const final = attempts[attempts.length - 1];
+
+  return (
+    <div className="bg-white p-6 rounded-[2rem] shadow-lg border border-slate-200">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-3 text-left">
+        <div className="p-2 bg-slate-50 rounded-xl">
+          <ChatBubbleLeftRightIcon className="w-6 h-6 text-slate-600" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-lg font-bold text-slate-800">AI抽出の履歴</h2>
+          <p className="text-xs text-slate-500">
+            {attempts.length} 回の試行 ・ 最終回答の指摘事項 {final?.violations.length ?? 0} 件
+          </p>
+        </div>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <ol className="mt-6 space-y-3">
+          {attempts.map(a => (
+            <li key={a.attempt} className="rounded-xl border border-slate-100 bg-slate-50">
+              <button
+                onClick={() => setExpanded(expanded === a.attempt ? null : a.attempt)}
+                className="w-full flex items-center gap-2 p-3 text-left text-sm"
+              >
+                {a.violations.length === 0
+                  ? <CheckCircleIcon className="w-4 h-4 text-emerald-500" />
+                  : <ExclamationTriangleIcon className="w-4 h-4 text-amber-500" />}
+                <span className="font-bold text-slate-700">試行 {a.attempt}</span>
+                <span className="text-xs text-slate-400">{new Date(a.timestamp).toLocaleString()}</span>
+                <span className="ml-auto text-xs text-slate-500">指摘 {a.violations.length} 件</span>
+              </button>
+              {expanded === a.attempt && (
+                <div className="px-3 pb-3 space-y-3 text-xs">
+                  {a.violations.length > 0 && (
+                    <ul className="list-disc pl-5 text-amber-700 space-y-1">
+                      {a.violations.map((v, idx) => <li key={idx}>{v}</li>)}
+                    </ul>
+                  )}
+                  <details>
+                    <summary className="cursor-pointer font-bold text-slate-500">送信したプロンプト</summary>
+                    <pre className="mt-2 p-3 bg-white rounded-lg border border-slate-200 whitespace-pre-wrap max-h-64 overflow-y-auto">{a.prompt}</pre>
+                  </details>
+                  <details>
+                    <summary className="cursor-pointer font-bold text-slate-500">AIの回答</summary>
+                    <pre className="mt-2 p-3 bg-white rounded-lg border border-slate-200 whitespace-pre-wrap max-h-64 overflow-y-auto">{a.response}</pre>
+                  </details>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ExtractionTranscript;
@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { BudgetResponse, CachedBudget, SankeyData } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { LAYER_LABELS } from '../services/budgetLayers';
+import { MergeItem, applyMerge, buildMergeItems, defaultAcceptedIds, mergeItemId } from '../services/budgetMerge';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { formatJapaneseCurrency } from '../App';
+
+interface Props {
+  current: CachedBudget;
+  result: BudgetResponse;
+  // Receives the merged data; the caller files it as a new version
+  onApply: (data: SankeyData) => void;
+  onClose: () => void;
+  // Further refreshes queued behind this one
+  remaining?: number;
+}
+
+const formatValue = (value: number | null) => (value === null ? 'なし' : formatJapaneseCurrency(value));
+
+const MergeDialog: React.FC<Props> = ({ current, result, onApply, onClose, remaining = 0 }) => {
+  const items = useMemo(
+    () => buildMergeItems(current.aiData, current.data, result.data),
+    [current, result]
+  );
+  const [accepted, setAccepted] = useState<Set<string>>(() => defaultAcceptedIds(items));
+  const conflicts = items.filter(item => item.conflict).length;
+
+  const toggle = (item: MergeItem) => {
+    const id = mergeItemId(item);
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleApply = () => onApply(applyMerge(current.aiData, current.data, result.data, accepted));
+
+  const handleDiscard = () => {
+    if (confirm('今回のAIの取得結果を破棄しますか？現在のデータはそのまま残ります。')) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <ArrowPathIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-lg font-bold text-slate-800">
+              AI更新の取り込み <span className="text-emerald-600">{current.city} {FISCAL_YEAR_LABELS[current.fiscalYear]}</span>
+              {remaining > 0 && <span className="ml-2 text-xs font-medium text-slate-400">ほか{remaining}件待機中</span>}
+            </h2>
+          </div>
+          <button onClick={handleDiscard} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            新しいAIの結果を、前回のAIの結果と比べて変わった箇所だけ表示しています。手動修正やインポートで変えた箇所とぶつかるものは「競合」として、既定では採用しません。
+            {current.aiData ? '' : 'このデータには前回のAIの結果が残っていないため、現在のデータと異なる箇所はすべて競合として扱います。'}
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100 text-xs">
+            <span className="font-bold text-slate-600">変更 {items.length} 件（うち競合 {conflicts} 件）・採用 {accepted.size} 件</span>
+            <div className="ml-auto flex items-center gap-2">
+              <button onClick={() => setAccepted(new Set(items.map(mergeItemId)))} className="px-2 py-1 rounded-lg border border-slate-200 bg-white font-bold hover:bg-slate-100">すべて採用</button>
+              <button onClick={() => setAccepted(new Set())} className="px-2 py-1 rounded-lg border border-slate-200 bg-white font-bold hover:bg-slate-100">すべて却下</button>
+              <button onClick={() => setAccepted(defaultAcceptedIds(items))} className="px-2 py-1 rounded-lg border border-slate-200 bg-white font-bold hover:bg-slate-100">既定に戻す</button>
+            </div>
+          </div>
+
+          {items.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-8">前回のAIの結果から金額・構成の変更はありませんでした。保存すると解説と参照資料が更新されます。</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-slate-500 border-b border-slate-200">
+                <tr>
+                  <th className="px-2 py-2 text-center">採用</th>
+                  <th className="px-2 py-2 text-left">種別</th>
+                  <th className="px-2 py-2 text-left">項目</th>
+                  <th className="px-2 py-2 text-right">現在</th>
+                  <th className="px-2 py-2 text-right">前回AI</th>
+                  <th className="px-2 py-2 text-right">今回AI</th>
+                  <th className="px-2 py-2 text-left">状態</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => {
+                  const id = mergeItemId(item);
+                  return (
+                    <tr key={id} className={`border-b border-slate-50 ${accepted.has(id) ? 'bg-emerald-50/40' : ''}`}>
+                      <td className="px-2 py-2 text-center">
+                        <input type="checkbox" checked={accepted.has(id)} onChange={() => toggle(item)} />
+                      </td>
+                      <td className="px-2 py-2 text-slate-500 whitespace-nowrap">
+                        {item.kind === 'node' ? 'ノード' : 'リンク'}{item.layer ? `・${LAYER_LABELS[item.layer]}` : ''}
+                      </td>
+                      <td className="px-2 py-2 font-bold text-slate-700">{item.label}</td>
+                      <td className="px-2 py-2 text-right">{formatValue(item.curated)}</td>
+                      <td className="px-2 py-2 text-right text-slate-400">{formatValue(item.previousAi)}</td>
+                      <td className="px-2 py-2 text-right font-bold">{formatValue(item.nextAi)}</td>
+                      <td className="px-2 py-2">
+                        {item.conflict
+                          ? <span className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 font-bold">競合</span>
+                          : <span className="px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 font-bold">AI更新</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-100">
+          <button onClick={handleDiscard} className="px-4 py-2 text-sm font-bold text-slate-500 hover:text-slate-700">破棄</button>
+          <button onClick={handleApply} className="px-4 py-2 bg-emerald-600 text-white rounded-xl text-sm font-bold hover:bg-emerald-700">
+            採用した変更で新しい版を保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeDialog;
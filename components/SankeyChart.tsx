@@ -1,139 +1,386 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { sankey, sankeyLinkHorizontal, sankeyCenter } from 'd3-sankey';
-import { SankeyData, SankeyNode, SankeyLink } from '../types';
-import { ArrowDownTrayIcon, TableCellsIcon } from '@heroicons/react/24/outline';
+import { Evidence, FiscalYear, SankeyData, SankeyNode, SankeyLink } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { getLayer } from '../services/budgetLayers';
+import { LinkDeltas, linkKey } from '../services/budgetDiff';
+import { filterAcyclicLinks } from '../services/budgetValidator';
+import { collapseLayer, connectedPath, focusOnNode, groupSmallFlows } from '../services/sankeyTransform';
+import { NodeClassifier } from '../services/taxonomy';
+import { downloadCsv } from '../services/csv';
+import { CSV_EXPORT_HEADERS, budgetCsvRows } from '../services/budgetCsv';
+import { ChartExportMeta } from '../services/chartExport';
+import { fitText, textWidth } from '../services/textFit';
+import ChartExportMenu from './ChartExportMenu';
+import { ArrowDownTrayIcon, TableCellsIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { formatJapaneseCurrency } from '../App';
 
 interface Props {
   data: SankeyData;
   city: string;
-  width?: number;
-  height?: number;
+  fiscalYear: FiscalYear;
+  // Short domain name for file names and the export title, e.g. 観光
+  domainLabel: string;
+  // When set, links are coloured by year-over-year change instead of by source node
+  linkDeltas?: LinkDeltas;
+  // Listed as 出典 on PNG/PDF exports
+  sources?: { title: string; uri: string }[];
+  exportTitle?: string;
+  // Adds the shared taxonomy category to tooltips and CSV rows
+  classify: NodeClassifier;
+  // Pass both to control the focused node from outside, e.g. from the URL
+  focusId?: string | null;
+  onFocusChange?: (nodeId: string | null) => void;
 }
 
-const SankeyChart: React.FC<Props> = ({ data, city, width = 800, height = 700 }) => {
+export const deltaColor = (status: string, deltaPct: number | null): string => {
+  if (status === 'added') return '#059669';
+  if (status === 'removed') return '#dc2626';
+  if (status === 'unchanged' || deltaPct === null) return '#94a3b8';
+  const intensity = Math.min(Math.abs(deltaPct) / 100, 1);
+  return status === 'increased'
+    ? d3.interpolateRgb('#a7f3d0', '#059669')(intensity)
+    : d3.interpolateRgb('#fecaca', '#dc2626')(intensity);
+};
+
+interface TooltipState {
+  x: number;
+  y: number;
+  title: string;
+  lines: string[];
+  confidence?: number;
+  estimated?: boolean;
+  manual?: boolean;
+  evidence?: Evidence[];
+}
+
+const HATCH_PATTERN_ID = 'sankey-estimated-hatch';
+const TRANSITION_MS = 450;
+const OTHER_SHARE_OPTIONS = [0, 1, 3, 5];
+// Below this container width the chart switches to thinner nodes and smaller labels
+const COMPACT_WIDTH = 640;
+const MIN_WIDTH = 320;
+const LABEL_OFFSET = 6;
+
+/** Height that gives the busiest column enough room for its labels. */
+const chartHeight = (data: SankeyData, compact: boolean) => {
+  const perColumn = new Map<string, number>();
+  data.nodes.forEach(n => {
+    const column = getLayer(n.id) || 'other';
+    perColumn.set(column, (perColumn.get(column) || 0) + 1);
+  });
+  const busiest = Math.max(0, ...Array.from(perColumn.values()));
+  return Math.max(compact ? 420 : 520, busiest * (compact ? 24 : 30) + 40);
+};
+
+interface LabelPlacement {
+  x: number;
+  anchor: 'start' | 'end';
+  text: string;
+  showValue: boolean;
+  visible: boolean;
+}
+
+/**
+ * Fits each label into the gap beside its node, truncating the name to the
+ * gap's width, and hides labels that would overlap a larger node's label.
+ * Nodes on the left half are labelled to their right and vice versa, so
+ * the two middle columns share the gap between them.
+ */
+const placeLabels = (nodes: any[], innerWidth: number, fontSize: number, valueLabel: (value: number) => string) => {
+  const lineHeight = fontSize * 1.2;
+  const columns = Array.from(new Set<number>(nodes.map(n => n.x0))).sort((a, b) => a - b);
+  const onRightOf = (x0: number) => x0 < innerWidth / 2;
+  const taken = new Map<string, [number, number][]>();
+  const placements = new Map<string, LabelPlacement>();
+
+  // Larger nodes claim their space first
+  [...nodes].sort((a, b) => b.value - a.value).forEach(n => {
+    const column = columns.indexOf(n.x0);
+    const onRight = onRightOf(n.x0);
+    const gap = onRight ? column : column - 1;
+    const gapStart = gap < 0 ? 0 : columns[gap] + (n.x1 - n.x0);
+    const gapEnd = gap + 1 < columns.length ? columns[gap + 1] : innerWidth;
+    const shared = gap >= 0 && gap + 1 < columns.length && onRightOf(columns[gap]) && !onRightOf(columns[gap + 1]);
+    const room = (gapEnd - gapStart) / (shared ? 2 : 1) - LABEL_OFFSET * 2;
+
+    const value = valueLabel(n.value);
+    const showValue = n.y1 - n.y0 > lineHeight * 1.5 && textWidth(value, fontSize) <= room;
+    const center = (n.y0 + n.y1) / 2;
+    const top = center - lineHeight / 2;
+    const bottom = top + lineHeight * (showValue ? 2 : 1);
+    const key = `${gap}:${onRight ? 'right' : 'left'}`;
+    const occupied = taken.get(key) || [];
+    const visible = room >= fontSize * 2 && !occupied.some(([t, b]) => top < b && bottom > t);
+    if (visible) taken.set(key, [...occupied, [top, bottom]]);
+
+    placements.set(n.id, {
+      x: onRight ? n.x1 + LABEL_OFFSET : n.x0 - LABEL_OFFSET,
+      anchor: onRight ? 'start' : 'end',
+      text: fitText(n.name, room, fontSize),
+      showValue,
+      visible,
+    });
+  });
+  return placements;
+};
+
+export const formatDelta = (delta: number, deltaPct: number | null) =>
+  `${delta >= 0 ? '+' : '-'}${formatJapaneseCurrency(Math.abs(delta))}${deltaPct === null ? '' : ` (${deltaPct >= 0 ? '+' : ''}${deltaPct.toFixed(1)}%)`}`;
+
+const SankeyChart: React.FC<Props> = ({
+  data, city, fiscalYear, domainLabel, linkDeltas, sources = [], exportTitle, classify, focusId: controlledFocusId, onFocusChange,
+}) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartBoxRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+  // Click highlights a node's whole path; double-click narrows the chart to it
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const [ownFocusId, setOwnFocusId] = useState<string | null>(null);
+  const controlled = onFocusChange !== undefined;
+  const focusId = controlled ? controlledFocusId ?? null : ownFocusId;
+  const setFocusId = controlled ? onFocusChange! : setOwnFocusId;
+  const [collapseItems, setCollapseItems] = useState(false);
+  const [otherSharePct, setOtherSharePct] = useState(0);
 
+  // A new ward or year starts from the full picture; a controlled focus is reset by its owner
   useEffect(() => {
-    if (!svgRef.current || !data.nodes.length) return;
+    setHighlightId(null);
+    setOwnFocusId(null);
+  }, [data]);
 
-    const nodesMap = new Map();
-    data.nodes.forEach(node => nodesMap.set(node.id, []));
-    
-    const validLinks: SankeyLink[] = [];
-    const adj = new Map<string, string[]>();
-    data.nodes.forEach(n => adj.set(n.id, []));
-
-    const wouldCreateCycle = (source: string, target: string): boolean => {
-      const visited = new Set<string>();
-      const stack = [target];
-      while (stack.length > 0) {
-        const curr = stack.pop()!;
-        if (curr === source) return true;
-        if (!visited.has(curr)) {
-          visited.add(curr);
-          const neighbors = adj.get(curr) || [];
-          stack.push(...neighbors);
-        }
-      }
-      return false;
-    };
+  const displayData = useMemo(() => {
+    let view = data;
+    if (collapseItems) view = collapseLayer(view, 'item');
+    view = groupSmallFlows(view, otherSharePct);
+    if (focusId && view.nodes.some(n => n.id === focusId)) view = focusOnNode(view, focusId);
+    return view;
+  }, [data, collapseItems, otherSharePct, focusId]);
 
-    data.links.forEach(link => {
-      if (link.source === link.target) return;
-      if (!nodesMap.has(link.source) || !nodesMap.has(link.target)) return;
-      
-      if (!wouldCreateCycle(link.source, link.target)) {
-        validLinks.push({ ...link });
-        adj.get(link.source)?.push(link.target);
-      }
-    });
+  const focusedNode = focusId ? displayData.nodes.find(n => n.id === focusId) : undefined;
+
+  useEffect(() => {
+    const box = chartBoxRef.current;
+    if (!box) return;
+    setWidth(box.clientWidth);
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(box);
+    return () => observer.disconnect();
+  }, []);
+
+  const compact = width > 0 && width < COMPACT_WIDTH;
+  const chartWidth = Math.max(width, MIN_WIDTH);
+  const height = chartHeight(displayData, compact);
+
+  useEffect(() => {
+    if (!svgRef.current || width === 0) return;
 
     const svg = d3.select(svgRef.current);
-    svg.selectAll('*').remove();
     svg.attr('xmlns', 'http://www.w3.org/2000/svg');
+    if (!displayData.nodes.length) {
+      svg.selectAll('*').remove();
+      return;
+    }
+
+    const { valid: validLinks } = filterAcyclicLinks(displayData.nodes, displayData.links);
 
-    const margin = { top: 20, right: 180, bottom: 20, left: 20 };
-    const innerWidth = width - margin.left - margin.right;
+    const margin = compact ? { top: 10, right: 8, bottom: 10, left: 8 } : { top: 20, right: 20, bottom: 20, left: 20 };
+    const fontSize = compact ? 9 : 10;
+    const innerWidth = chartWidth - margin.left - margin.right;
     const innerHeight = height - margin.top - margin.bottom;
 
-    const g = svg.append('g')
+    // Diagonal hatching laid over estimated nodes
+    svg.selectAll('defs')
+      .data([null])
+      .join(enter => {
+        const defs = enter.append('defs');
+        defs.append('pattern')
+          .attr('id', HATCH_PATTERN_ID)
+          .attr('patternUnits', 'userSpaceOnUse')
+          .attr('width', 6)
+          .attr('height', 6)
+          .attr('patternTransform', 'rotate(45)')
+          .append('rect')
+          .attr('width', 2)
+          .attr('height', 6)
+          .attr('fill', 'rgba(255,255,255,0.7)');
+        return defs;
+      });
+
+    // Layers persist between renders so nodes and links can animate to their new places
+    const g = svg.selectAll('g.sankey-root')
+      .data([null])
+      .join('g')
+      .attr('class', 'sankey-root')
       .attr('transform', `translate(${margin.left},${margin.top})`);
+    const linkLayer = g.selectAll('g.sankey-links').data([null]).join('g').attr('class', 'sankey-links').attr('fill', 'none');
+    const nodeLayer = g.selectAll('g.sankey-nodes').data([null]).join('g').attr('class', 'sankey-nodes');
+
+    svg.on('click', (event: MouseEvent) => {
+      if (event.target !== svgRef.current) return;
+      setHighlightId(null);
+      setTooltip(null);
+    });
+
+    const showTooltip = (event: MouseEvent, content: Omit<TooltipState, 'x' | 'y'>) => {
+      const [x, y] = d3.pointer(event, containerRef.current);
+      setTooltip({ x, y, ...content });
+    };
 
     const sankeyGenerator = sankey<SankeyNode, SankeyLink>()
       .nodeId(d => d.id)
       .nodeAlign(sankeyCenter)
-      .nodeWidth(20)
-      .nodePadding(12)
+      .nodeWidth(compact ? 12 : 20)
+      .nodePadding(compact ? 8 : 12)
       .extent([[1, 1], [innerWidth - 1, innerHeight - 5]]);
 
     try {
       const { nodes, links } = sankeyGenerator({
-        nodes: data.nodes.map(d => ({ ...d })),
+        nodes: displayData.nodes.map(d => ({ ...d })),
         links: validLinks.map(d => ({ ...d }))
       });
 
       const color = d3.scaleOrdinal(d3.schemeTableau10);
+      const transition = svg.transition().duration(TRANSITION_MS) as any;
+      const path = highlightId && displayData.nodes.some(n => n.id === highlightId)
+        ? connectedPath(displayData, highlightId)
+        : null;
+      const linkOpacity = (d: any) => (!path ? 0.4 : path.links.has(linkKey(d.source.id, d.target.id)) ? 0.65 : 0.06);
+      const nodeOpacity = (d: any) => (!path || path.nodes.has(d.id) ? 1 : 0.25);
+
+      const deltaOf = (d: any) => linkDeltas?.[linkKey(d.source.id, d.target.id)];
 
-      const link = g.append('g')
-        .attr('fill', 'none')
-        .attr('stroke-opacity', 0.4)
-        .selectAll('g')
-        .data(links)
-        .join('g')
-        .style('mix-blend-mode', 'multiply');
+      const link = linkLayer.selectAll<SVGPathElement, any>('path')
+        .data(links, (d: any) => linkKey(d.source.id, d.target.id))
+        .join(
+          enter => enter.append('path')
+            .attr('d', sankeyLinkHorizontal())
+            .attr('stroke-width', (d: any) => Math.max(1, d.width))
+            .attr('stroke-opacity', 0),
+          update => update,
+          exit => exit.transition(transition).attr('stroke-opacity', 0).remove()
+        )
+        .style('mix-blend-mode', 'multiply')
+        .attr('stroke', (d: any) => {
+          const delta = deltaOf(d);
+          return delta ? deltaColor(delta.status, delta.deltaPct) : color(d.source.id);
+        })
+        .attr('stroke-dasharray', (d: any) => (d.estimated ? '6 4' : null))
+        .on('mousemove', (event: MouseEvent, d: any) => {
+          const delta = deltaOf(d);
+          showTooltip(event, {
+            title: `${d.source.name} → ${d.target.name}`,
+            lines: delta
+              ? [`${formatJapaneseCurrency(delta.before)} → ${formatJapaneseCurrency(delta.after)}`, `増減: ${formatDelta(delta.delta, delta.deltaPct)}`]
+              : [formatJapaneseCurrency(d.value)],
+            confidence: d.confidence,
+            estimated: d.estimated,
+            manual: d.manual,
+            evidence: d.evidence,
+          });
+        })
+        .on('mouseleave', () => setTooltip(null));
 
-      link.append('path')
+      link.transition(transition)
         .attr('d', sankeyLinkHorizontal())
-        .attr('stroke', (d: any) => color(d.source.id))
         .attr('stroke-width', (d: any) => Math.max(1, d.width))
-        .append('title')
-        .text((d: any) => `${d.source.name} → ${d.target.name}\n${formatJapaneseCurrency(d.value)}`);
+        .attr('stroke-opacity', linkOpacity);
 
-      const node = g.append('g')
-        .selectAll('g')
-        .data(nodes)
-        .join('g');
+      const labels = placeLabels(nodes, innerWidth, fontSize, formatJapaneseCurrency);
+      const labelTransform = (d: any) => `translate(${labels.get(d.id)!.x},${(d.y1 + d.y0) / 2})`;
+      const nodeTooltip = (d: any) => {
+        const category = classify(d.id, d.name);
+        return {
+          title: d.name,
+          lines: [`合計: ${formatJapaneseCurrency(d.value)}`, ...(category ? [`分類: ${category}`] : [])],
+          confidence: d.confidence,
+          estimated: d.estimated,
+          manual: d.manual,
+          evidence: d.evidence,
+        };
+      };
 
-      node.append('rect')
+      const node = nodeLayer.selectAll<SVGGElement, any>('g.sankey-node')
+        .data(nodes, (d: any) => d.id)
+        .join(
+          enter => {
+            const group = enter.append('g').attr('class', 'sankey-node').attr('opacity', 0);
+            group.append('rect').attr('class', 'sankey-node-bar');
+            group.append('rect').attr('class', 'sankey-node-hatch').attr('pointer-events', 'none');
+            group.append('text').attr('transform', labelTransform);
+            group.selectAll('rect')
+              .attr('x', (d: any) => d.x0)
+              .attr('y', (d: any) => d.y0)
+              .attr('height', (d: any) => Math.max(2, d.y1 - d.y0))
+              .attr('width', (d: any) => d.x1 - d.x0);
+            return group;
+          },
+          update => update,
+          exit => exit.transition(transition).attr('opacity', 0).remove()
+        );
+
+      node.transition(transition).attr('opacity', nodeOpacity);
+
+      node.select<SVGRectElement>('rect.sankey-node-bar')
+        .attr('fill', (d: any) => color(d.id))
+        .attr('stroke', (d: any) => (d.id === highlightId ? '#0f172a' : '#fff'))
+        .attr('stroke-width', (d: any) => (d.id === highlightId ? 2 : 1))
+        .style('cursor', 'pointer')
+        .on('mousemove', (event: MouseEvent, d: any) => showTooltip(event, nodeTooltip(d)))
+        .on('mouseleave', () => setTooltip(null))
+        .on('click', (event: MouseEvent, d: any) => {
+          event.stopPropagation();
+          // Touch screens have no hover, so a tap is the only way to read a truncated name
+          showTooltip(event, nodeTooltip(d));
+          setHighlightId(prev => (prev === d.id ? null : d.id));
+        })
+        .on('dblclick', (event: MouseEvent, d: any) => {
+          event.stopPropagation();
+          setHighlightId(null);
+          setFocusId(d.id);
+        });
+
+      node.select<SVGRectElement>('rect.sankey-node-hatch')
+        .attr('fill', `url(#${HATCH_PATTERN_ID})`)
+        .attr('display', (d: any) => (d.estimated ? null : 'none'));
+
+      node.selectAll<SVGRectElement, any>('rect')
+        .transition(transition)
         .attr('x', (d: any) => d.x0)
         .attr('y', (d: any) => d.y0)
         .attr('height', (d: any) => Math.max(2, d.y1 - d.y0))
-        .attr('width', (d: any) => d.x1 - d.x0)
-        .attr('fill', (d: any) => color(d.id))
-        .attr('stroke', '#fff')
-        .attr('stroke-width', 1)
-        .append('title')
-        .text((d: any) => `${d.name}\n合計: ${formatJapaneseCurrency(d.value)}`);
-
-      node.append('text')
-        .attr('x', (d: any) => d.x0 < innerWidth / 2 ? d.x1 + 8 : d.x0 - 8)
-        .attr('y', (d: any) => (d.y1 + d.y0) / 2)
+        .attr('width', (d: any) => d.x1 - d.x0);
+
+      const label = node.select<SVGTextElement>('text')
         .attr('dy', '0.35em')
-        .attr('text-anchor', (d: any) => d.x0 < innerWidth / 2 ? 'start' : 'end')
-        .attr('style', 'font-size: 10px; font-weight: bold; fill: #1e293b; pointer-events: none;')
-        .text((d: any) => d.name)
-        .filter((d: any) => (d.y1 - d.y0) > 15)
+        .attr('text-anchor', (d: any) => labels.get(d.id)!.anchor)
+        .attr('display', (d: any) => (labels.get(d.id)!.visible ? null : 'none'))
+        .attr('style', `font-size: ${fontSize}px; font-weight: bold; fill: #1e293b; pointer-events: none;`)
+        .text((d: any) => labels.get(d.id)!.text);
+      label.filter((d: any) => labels.get(d.id)!.showValue)
         .append('tspan')
         .attr('fill-opacity', 0.6)
         .attr('font-weight', 'normal')
-        .attr('x', (d: any) => d.x0 < innerWidth / 2 ? d.x1 + 8 : d.x0 - 8)
+        .attr('x', 0)
         .attr('dy', '1.2em')
         .text((d: any) => formatJapaneseCurrency(d.value));
-        
+      label.transition(transition).attr('transform', labelTransform);
+
     } catch (err) {
       console.error("Sankey layout failed:", err);
     }
 
-  }, [data, width, height]);
+  }, [displayData, width, chartWidth, height, compact, linkDeltas, highlightId, classify]);
 
   const handleDownload = () => {
     if (!svgRef.current) return;
     const svgClone = svgRef.current.cloneNode(true) as SVGSVGElement;
     const background = document.createElementNS("http://www.w3.org/2000/svg", "rect");
-    background.setAttribute("width", width.toString());
+    background.setAttribute("width", chartWidth.toString());
     background.setAttribute("height", height.toString());
     background.setAttribute("fill", "#ffffff");
     svgClone.insertBefore(background, svgClone.firstChild);
@@ -144,7 +391,7 @@ const SankeyChart: React.FC<Props> = ({ data, city, width = 800, height = 700 })
     
     const downloadLink = document.createElement("a");
     downloadLink.href = svgUrl;
-    downloadLink.download = `${city}_観光予算フロー_${new Date().toISOString().split('T')[0]}.svg`;
+    downloadLink.download = `${city}_${FISCAL_YEAR_LABELS[fiscalYear]}_${domainLabel}予算フロー_${new Date().toISOString().split('T')[0]}.svg`;
     document.body.appendChild(downloadLink);
     downloadLink.click();
     document.body.removeChild(downloadLink);
@@ -152,56 +399,123 @@ const SankeyChart: React.FC<Props> = ({ data, city, width = 800, height = 700 })
   };
 
   const handleCsvDownload = () => {
-    const nodeNameMap = new Map(data.nodes.map(n => [n.id, n.name]));
-    const headers = ["元項目", "先項目", "金額(千円)", "金額(表示用)"];
-    const rows = data.links.map(link => [
-      nodeNameMap.get(link.source) || link.source,
-      nodeNameMap.get(link.target) || link.target,
-      link.value,
-      formatJapaneseCurrency(link.value)
-    ]);
-
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
-    const blob = new Blob(["\ufeff" + csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `${city}_観光予算詳細_${new Date().toISOString().split('T')[0]}.csv`);
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const rows = budgetCsvRows({ city, fiscalYear, data }, formatJapaneseCurrency, classify);
+
+    downloadCsv([CSV_EXPORT_HEADERS, ...rows], `${city}_${FISCAL_YEAR_LABELS[fiscalYear]}_${domainLabel}予算詳細_${new Date().toISOString().split('T')[0]}.csv`);
+  };
+
+  const hasEstimates = data.nodes.some(n => n.estimated) || data.links.some(l => l.estimated);
+  // Money entering from the roots, so a four-layer flow isn't counted four times
+  const targets = new Set(data.links.map(l => l.target));
+  const exportMeta: ChartExportMeta = {
+    title: exportTitle || `${city} ${domainLabel}予算フロー`,
+    subtitle: FISCAL_YEAR_LABELS[fiscalYear],
+    total: linkDeltas ? undefined : data.links.filter(l => !targets.has(l.source)).reduce((sum, l) => sum + l.value, 0),
+    formatTotal: formatJapaneseCurrency,
+    sources,
+    notes: [
+      ...(hasEstimates ? ['破線のリンク・斜線のノードは、資料に明記がなくAIが推定した金額です。'] : []),
+      ...(focusedNode ? [`「${focusedNode.name}」に関係する流れのみを表示しています。`] : []),
+      ...(collapseItems ? ['具体的細目は事業カテゴリーにまとめて表示しています。'] : []),
+      ...(otherSharePct > 0 ? [`総額の${otherSharePct}%未満の細目は「その他」にまとめて表示しています。`] : []),
+    ],
   };
 
   return (
-    <div className="w-full relative bg-white rounded-2xl p-6 shadow-sm border border-slate-200 group">
-      <div className="absolute top-4 right-4 z-10 flex gap-2">
-        <button
-          onClick={handleCsvDownload}
-          className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 shadow-lg transition-transform hover:scale-105 active:scale-95"
-        >
-          <TableCellsIcon className="w-4 h-4" />
-          <span>詳細CSV</span>
-        </button>
-        <button
-          onClick={handleDownload}
-          className="flex items-center gap-2 px-3 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold hover:bg-slate-800 shadow-lg transition-transform hover:scale-105 active:scale-95"
-        >
-          <ArrowDownTrayIcon className="w-4 h-4" />
-          <span>保存 (SVG)</span>
-        </button>
-      </div>
-      <div className="overflow-x-auto no-scrollbar">
-        <div className="min-w-[1000px]">
-          <svg
-            ref={svgRef}
-            width={width}
-            height={height}
-            viewBox={`0 0 ${width} ${height}`}
-            className="mx-auto block"
+    <div ref={containerRef} className="w-full relative bg-white rounded-2xl p-3 sm:p-6 shadow-sm border border-slate-200 group">
+      <div className="flex flex-wrap items-start justify-between gap-3 mb-3">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <button
+            onClick={() => setCollapseItems(prev => !prev)}
+            className={`px-3 py-1.5 rounded-lg font-bold border transition-all ${
+              collapseItems ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+            }`}
+          >
+            細目を折りたたむ
+          </button>
+          <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 font-bold">
+            少額をまとめる
+            <select value={otherSharePct} onChange={(e) => setOtherSharePct(Number(e.target.value))} className="bg-transparent font-normal">
+              {OTHER_SHARE_OPTIONS.map(pct => <option key={pct} value={pct}>{pct === 0 ? 'しない' : `${pct}%未満`}</option>)}
+            </select>
+          </label>
+          {focusedNode && (
+            <button
+              onClick={() => setFocusId(null)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg font-bold bg-emerald-50 text-emerald-700 border border-emerald-200 hover:bg-emerald-100"
+            >
+              絞り込み中: {focusedNode.name}
+              <XMarkIcon className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <span className="text-slate-400">クリックで流れを強調、ダブルクリックで絞り込み</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleCsvDownload}
+            className="flex items-center gap-2 px-3 py-1.5 bg-emerald-600 text-white rounded-lg text-xs font-bold hover:bg-emerald-700 shadow-lg transition-transform hover:scale-105 active:scale-95"
+          >
+            <TableCellsIcon className="w-4 h-4" />
+            <span>詳細CSV</span>
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center gap-2 px-3 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold hover:bg-slate-800 shadow-lg transition-transform hover:scale-105 active:scale-95"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            <span>保存 (SVG)</span>
+          </button>
+          <ChartExportMenu
+            getChart={() => svgRef.current}
+            meta={exportMeta}
+            fileBaseName={`${city}_${FISCAL_YEAR_LABELS[fiscalYear]}_${domainLabel}予算フロー_${new Date().toISOString().split('T')[0]}`}
           />
         </div>
       </div>
+      <div ref={chartBoxRef} className="w-full overflow-x-auto no-scrollbar">
+        <svg
+          ref={svgRef}
+          width={chartWidth}
+          height={height}
+          viewBox={`0 0 ${chartWidth} ${height}`}
+          className="block"
+        />
+      </div>
+      {hasEstimates ? (
+        <p className="mt-2 text-[10px] text-slate-400 flex items-center gap-2">
+          <svg width="24" height="8"><line x1="0" y1="4" x2="24" y2="4" stroke="#94a3b8" strokeWidth="3" strokeDasharray="6 4" /></svg>
+          破線・斜線は資料に明記がなくAIが推定した金額です
+        </p>
+      ) : null}
+      {tooltip && (
+        <div
+          className="absolute z-20 pointer-events-none max-w-sm bg-slate-900/95 text-white rounded-xl shadow-2xl p-3 text-xs space-y-1.5"
+          style={{ left: Math.max(0, Math.min(tooltip.x + 16, width - 260)), top: tooltip.y + 16 }}
+        >
+          <p className="font-bold text-sm leading-snug">{tooltip.title}</p>
+          {tooltip.lines.map((line, idx) => <p key={idx} className="text-slate-300">{line}</p>)}
+          <div className="flex flex-wrap gap-1.5">
+            {tooltip.manual && <span className="px-1.5 py-0.5 rounded bg-emerald-600 text-[10px] font-bold">手動修正</span>}
+            {tooltip.estimated && <span className="px-1.5 py-0.5 rounded bg-amber-500 text-[10px] font-bold">推定値</span>}
+            {typeof tooltip.confidence === 'number' && (
+              <span className="px-1.5 py-0.5 rounded bg-slate-700 text-[10px] font-bold">信頼度 {Math.round(tooltip.confidence * 100)}%</span>
+            )}
+          </div>
+          {tooltip.evidence && tooltip.evidence.length > 0 ? (
+            <ul className="border-t border-slate-700 pt-1.5 space-y-1.5">
+              {tooltip.evidence.map((e, idx) => (
+                <li key={idx}>
+                  <p className="font-bold text-emerald-300">{e.title || e.uri}{e.page ? `（${e.page}）` : ''}</p>
+                  {e.quote && <p className="text-slate-300 italic">「{e.quote}」</p>}
+                  {e.uri && e.title && <p className="text-slate-500 truncate">{e.uri}</p>}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="border-t border-slate-700 pt-1.5 text-slate-500">個別の根拠資料は示されていません</p>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,302 @@
+import React, { useState } from 'react';
+import { AppSettings } from '../services/settings';
+import { BudgetProviderId, PROVIDER_LABELS } from '../services/budgetProvider';
+import {
+  PROMPT_PLACEHOLDERS,
+  PromptPlaceholder,
+  allPromptTemplates,
+  createPromptVersion,
+  findPromptTemplate,
+  missingPlaceholders,
+} from '../services/promptTemplates';
+import { BUILT_IN_DOMAINS, createCustomDomain } from '../services/budgetDomains';
+import { Cog6ToothIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<BudgetProviderId, string> = {
+  gemini: 'Google検索で公式資料を調べて抽出します。GEMINI_API_KEY が必要です。',
+  fixtures: 'ネットワークを使わず、23区分の固定サンプルを返します。一部の区は意図的に不正なデータです。',
+  'openai-compatible': 'Ollama や LM Studio など /chat/completions を提供するエンドポイントを使います。検索は行いません。',
+};
+
+const SettingsPanel: React.FC<Props> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const activeTemplate = findPromptTemplate(draft.promptTemplates, draft.promptVersion);
+  const [promptBody, setPromptBody] = useState(activeTemplate.body);
+  const [promptLabel, setPromptLabel] = useState('');
+  const [domainLabel, setDomainLabel] = useState('');
+  const [domainScope, setDomainScope] = useState('');
+  const missing = missingPlaceholders(promptBody);
+
+  const selectPromptVersion = (version: number) => {
+    setDraft(prev => ({ ...prev, promptVersion: version }));
+    setPromptBody(findPromptTemplate(draft.promptTemplates, version).body);
+  };
+
+  const handleSave = () => {
+    if (promptBody !== activeTemplate.body && !confirm('プロンプトの編集内容が版として追加されていません。編集内容を破棄して保存しますか？')) return;
+    onSave(draft);
+  };
+
+  // Saved versions are never overwritten, so editing always adds one
+  const savePromptVersion = () => {
+    const template = createPromptVersion(draft.promptTemplates, promptLabel, promptBody);
+    setDraft(prev => ({ ...prev, promptTemplates: [...prev.promptTemplates, template], promptVersion: template.version }));
+    setPromptLabel('');
+  };
+
+  const addDomain = () => {
+    const domain = createCustomDomain(domainLabel, domainScope);
+    setDraft(prev => ({ ...prev, customDomains: [...prev.customDomains, domain] }));
+    setDomainLabel('');
+    setDomainScope('');
+  };
+
+  const removeDomain = (id: string) => {
+    if (!confirm('この分野を削除しますか？取得済みのデータは保存データの管理から削除できます。')) return;
+    setDraft(prev => ({ ...prev, customDomains: prev.customDomains.filter(d => d.id !== id) }));
+  };
+
+  const updateEndpoint = (field: keyof AppSettings['openAICompatible'], value: string) => {
+    setDraft(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, [field]: value } }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Cog6ToothIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-lg font-bold text-slate-800">データ取得の設定</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <fieldset className="space-y-2">
+            <legend className="text-xs font-bold text-slate-500 mb-2">データプロバイダー</legend>
+            {(Object.keys(PROVIDER_LABELS) as BudgetProviderId[]).map(id => (
+              <label
+                key={id}
+                className={`flex gap-3 p-3 rounded-xl border cursor-pointer transition-all ${
+                  draft.provider === id ? 'border-emerald-500 bg-emerald-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  checked={draft.provider === id}
+                  onChange={() => setDraft(prev => ({ ...prev, provider: id }))}
+                  className="mt-1"
+                />
+                <div>
+                  <p className="text-sm font-bold text-slate-700">{PROVIDER_LABELS[id]}</p>
+                  <p className="text-xs text-slate-500 mt-0.5">{PROVIDER_DESCRIPTIONS[id]}</p>
+                </div>
+              </label>
+            ))}
+          </fieldset>
+
+          {draft.provider === 'openai-compatible' && (
+            <div className="space-y-3 p-4 bg-slate-50 rounded-xl border border-slate-100">
+              {([
+                ['baseUrl', 'エンドポイントURL', 'http://localhost:11434/v1'],
+                ['model', 'モデル名', 'llama3.1'],
+                ['apiKey', 'APIキー（任意）', ''],
+              ] as const).map(([field, label, placeholder]) => (
+                <label key={field} className="block">
+                  <span className="text-xs font-bold text-slate-500">{label}</span>
+                  <input
+                    type={field === 'apiKey' ? 'password' : 'text'}
+                    value={draft.openAICompatible[field]}
+                    placeholder={placeholder}
+                    onChange={(e) => updateEndpoint(field, e.target.value)}
+                    className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+
+          {draft.provider === 'gemini' && (
+            <div className="space-y-3 p-4 bg-slate-50 rounded-xl border border-slate-100">
+              <label className="block">
+                <span className="text-xs font-bold text-slate-500">モデル名</span>
+                <input
+                  type="text"
+                  value={draft.gemini.model}
+                  onChange={(e) => setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, model: e.target.value } }))}
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={draft.gemini.grounding}
+                  onChange={(e) => setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, grounding: e.target.checked } }))}
+                />
+                Google検索によるグラウンディング
+              </label>
+              <span className="text-[10px] text-slate-400 block">グラウンディング中はJSONスキーマ指定を使わず、回答をアプリ側で検証します（どのモデルでも利用できます）。</span>
+            </div>
+          )}
+
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500">温度（temperature）</span>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature ?? ''}
+              placeholder="既定"
+              onChange={(e) => setDraft(prev => ({
+                ...prev,
+                temperature: e.target.value === '' ? null : Math.min(2, Math.max(0, Number(e.target.value) || 0)),
+              }))}
+              className="mt-1 w-24 px-3 py-2 rounded-lg border border-slate-200 text-sm block"
+            />
+            <span className="text-[10px] text-slate-400">空欄の場合は各モデルの既定値を使います。低いほど同じ回答が得られやすくなります。</span>
+          </label>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-bold text-slate-500">抽出プロンプト</span>
+              <select
+                value={draft.promptVersion}
+                onChange={(e) => selectPromptVersion(Number(e.target.value))}
+                className="ml-auto px-2 py-1 rounded-lg border border-slate-200 text-xs"
+              >
+                {allPromptTemplates(draft.promptTemplates).map(t => (
+                  <option key={t.version} value={t.version}>
+                    v{t.version} {t.label}{t.createdAt ? `（${new Date(t.createdAt).toLocaleDateString()}）` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={promptBody}
+              onChange={(e) => setPromptBody(e.target.value)}
+              rows={10}
+              className="w-full px-3 py-2 rounded-lg border border-slate-200 text-xs font-mono leading-relaxed"
+            />
+            <p className="text-[10px] text-slate-400">
+              {(Object.keys(PROMPT_PLACEHOLDERS) as PromptPlaceholder[]).map(name => `{{${name}}} = ${PROMPT_PLACEHOLDERS[name]}`).join('　')}
+            </p>
+            {missing.length > 0 && (
+              <p className="text-[10px] font-bold text-amber-600">
+                {missing.map(name => `{{${name}}}`).join('・')} が含まれていません。
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={promptLabel}
+                placeholder="版の名前（例：補正予算を除外）"
+                onChange={(e) => setPromptLabel(e.target.value)}
+                className="flex-1 px-3 py-1.5 rounded-lg border border-slate-200 text-xs"
+              />
+              <button
+                onClick={savePromptVersion}
+                disabled={promptBody === activeTemplate.body}
+                className="px-3 py-1.5 bg-slate-800 text-white text-xs font-bold rounded-lg hover:bg-slate-700 disabled:opacity-40"
+              >
+                新しい版として追加
+              </button>
+            </div>
+            <span className="text-[10px] text-slate-400">保存済みの版は変更されません。取得結果には使用した版が記録されます。</span>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-xs font-bold text-slate-500">分析対象の分野</span>
+            <ul className="space-y-1">
+              {[...BUILT_IN_DOMAINS, ...draft.customDomains].map(d => (
+                <li key={d.id} className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 rounded-lg border border-slate-100 text-xs">
+                  <span className="font-bold text-slate-700">{d.label}</span>
+                  <span className="text-slate-400">{`{{scope}}`} = {d.scope}</span>
+                  {BUILT_IN_DOMAINS.includes(d) ? (
+                    <span className="ml-auto text-[10px] text-slate-400">標準</span>
+                  ) : (
+                    <button onClick={() => removeDomain(d.id)} className="ml-auto p-0.5 text-slate-400 hover:text-red-600" title="削除">
+                      <TrashIcon className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={domainLabel}
+                placeholder="分野名（例：子育て支援）"
+                onChange={(e) => setDomainLabel(e.target.value)}
+                className="w-40 px-3 py-1.5 rounded-lg border border-slate-200 text-xs"
+              />
+              <input
+                type="text"
+                value={domainScope}
+                placeholder={domainLabel.trim() ? `${domainLabel.trim()}関連予算` : '予算の範囲（省略可）'}
+                onChange={(e) => setDomainScope(e.target.value)}
+                className="flex-1 px-3 py-1.5 rounded-lg border border-slate-200 text-xs"
+              />
+              <button
+                onClick={addDomain}
+                disabled={!domainLabel.trim()}
+                className="px-3 py-1.5 bg-slate-800 text-white text-xs font-bold rounded-lg hover:bg-slate-700 disabled:opacity-40"
+              >
+                追加
+              </button>
+            </div>
+            <span className="text-[10px] text-slate-400">ヘッダーで選んだ分野の範囲がプロンプトの {`{{scope}}`} に入ります。分野ごとに別のデータとして保存されます。</span>
+          </div>
+
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500">作成者ラベル</span>
+            <input
+              type="text"
+              value={draft.authorLabel}
+              placeholder="例：観光課 データ担当"
+              onChange={(e) => setDraft(prev => ({ ...prev, authorLabel: e.target.value }))}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm"
+            />
+            <span className="text-[10px] text-slate-400">取得・インポート・手動修正で保存される各版の履歴に記録されます。</span>
+          </label>
+
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500">検証エラー時の最大試行回数</span>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={draft.maxAttempts}
+              onChange={(e) => setDraft(prev => ({ ...prev, maxAttempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) }))}
+              className="mt-1 w-24 px-3 py-2 rounded-lg border border-slate-200 text-sm block"
+            />
+            <span className="text-[10px] text-slate-400">AIの回答が4層構造のルールを満たさない場合、指摘事項を添えて再生成を依頼します（初回を含む）。</span>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100">
+          <button onClick={onClose} className="px-5 py-2 text-sm font-bold text-slate-500 hover:text-slate-800">
+            キャンセル
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-5 py-2 bg-emerald-600 text-white text-sm font-bold rounded-xl hover:bg-emerald-700 shadow-lg"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
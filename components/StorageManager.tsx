@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetCache } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { getStorageUsage, pruneCache, StorageUsage } from '../services/budgetStore';
+import { BudgetDomain } from '../services/budgetDomains';
+import { CircleStackIcon, TrashIcon, XMarkIcon, ScissorsIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  cache: BudgetCache;
+  // Known domains, for labelling rows; a removed custom domain shows its id
+  domains: BudgetDomain[];
+  onChange: (next: BudgetCache) => void;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const StorageManager: React.FC<Props> = ({ cache, domains, onChange, onClose }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [olderThanDays, setOlderThanDays] = useState(365);
+
+  useEffect(() => {
+    getStorageUsage(cache).then(setUsage).catch(err => console.error(err));
+  }, [cache]);
+
+  const handleDelete = (key: string) => {
+    const budget = cache[key];
+    if (!budget) return;
+    const versions = budget.versions?.length || 0;
+    const label = `${budget.city}（${FISCAL_YEAR_LABELS[budget.fiscalYear]}）`;
+    if (!confirm(`${label}のデータ 1 件${versions > 0 ? `と以前の版 ${versions} 件` : ''}を削除します。よろしいですか？`)) return;
+    const next = { ...cache };
+    delete next[key];
+    onChange(next);
+  };
+
+  const handlePruneTranscripts = () => {
+    const next = pruneCache(cache, 'transcripts');
+    // Untouched entries come back as the same object
+    const affected = Object.keys(cache).filter(key => next[key] !== cache[key]).length;
+    if (affected === 0) return alert('削除できるAI抽出履歴の本文はありません。');
+    if (confirm(`${affected} 件のデータからAI抽出履歴の本文を削除します。元に戻せません。よろしいですか？`)) onChange(next);
+  };
+
+  const handlePruneOld = () => {
+    const next = pruneCache(cache, 'olderThan', olderThanDays);
+    const removed = Object.keys(cache).length - Object.keys(next).length;
+    if (removed === 0) return alert(`${olderThanDays}日より古いデータはありません。`);
+    if (confirm(`${removed} 件のデータを削除します。よろしいですか？`)) onChange(next);
+  };
+
+  const handleClearAll = () => {
+    if (confirm('保存されている全ての予算データを削除します。よろしいですか？')) onChange({});
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <CircleStackIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-lg font-bold text-slate-800">保存データの管理</h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {usage && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs">
+              <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <p className="text-slate-400 font-bold">保存件数</p>
+                <p className="text-lg font-black text-slate-800">{usage.records.length} 件</p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <p className="text-slate-400 font-bold">予算データの容量</p>
+                <p className="text-lg font-black text-slate-800">{formatBytes(usage.totalBytes)}</p>
+              </div>
+              <div className="p-3 bg-slate-50 rounded-xl border border-slate-100">
+                <p className="text-slate-400 font-bold">ブラウザ全体の使用量</p>
+                <p className="text-lg font-black text-slate-800">
+                  {usage.originUsage !== undefined ? formatBytes(usage.originUsage) : '不明'}
+                  {usage.originQuota ? <span className="text-xs text-slate-400 font-bold"> / {formatBytes(usage.originQuota)}</span> : null}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100 text-xs">
+            <button
+              onClick={handlePruneTranscripts}
+              className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-slate-600 hover:bg-slate-100"
+              title="指摘事項は残し、以前の版を含めて送信プロンプトとAI回答の全文を削除します"
+            >
+              <ScissorsIcon className="w-4 h-4" />
+              AI抽出履歴の本文を削除
+            </button>
+            <span className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min={1}
+                value={olderThanDays}
+                onChange={(e) => setOlderThanDays(Math.max(1, Number(e.target.value) || 1))}
+                className="w-20 px-2 py-1 rounded-lg border border-slate-200"
+              />
+              日より古いデータを
+              <button onClick={handlePruneOld} className="px-3 py-1.5 bg-white border border-slate-200 rounded-lg font-bold text-slate-600 hover:bg-slate-100">
+                削除
+              </button>
+            </span>
+            <button onClick={handleClearAll} className="ml-auto px-3 py-1.5 bg-red-50 border border-red-100 rounded-lg font-bold text-red-600 hover:bg-red-100">
+              全て削除
+            </button>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead className="text-slate-500 border-b border-slate-200">
+              <tr>
+                <th className="px-3 py-2 text-left">区</th>
+                <th className="px-3 py-2 text-left">年度</th>
+                <th className="px-3 py-2 text-left">分野</th>
+                <th className="px-3 py-2 text-left">取得日時</th>
+                <th className="px-3 py-2 text-right" title="以前の版に残っている分も含みます">AI試行</th>
+                <th className="px-3 py-2 text-right">容量</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage?.records.map(record => (
+                <tr key={record.key} className="border-b border-slate-50 hover:bg-slate-50">
+                  <td className="px-3 py-2 font-bold text-slate-700">{record.city}</td>
+                  <td className="px-3 py-2">{FISCAL_YEAR_LABELS[record.fiscalYear]}</td>
+                  <td className="px-3 py-2">{domains.find(d => d.id === record.domain)?.label || record.domain}</td>
+                  <td className="px-3 py-2 text-slate-500">{new Date(record.timestamp).toLocaleString()}</td>
+                  <td className="px-3 py-2 text-right tabular-nums">{record.attempts || '-'}</td>
+                  <td className="px-3 py-2 text-right tabular-nums">{formatBytes(record.bytes)}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button onClick={() => handleDelete(record.key)} className="p-1 text-slate-400 hover:text-red-600" title="削除">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {usage && usage.records.length === 0 && <p className="text-center text-slate-400 py-8">保存されているデータはありません。</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StorageManager;
@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import { BudgetCache } from '../types';
+import { LAYER_LABELS } from '../services/budgetLayers';
+import {
+  MAPPING_SOURCE_LABELS,
+  NamedNode,
+  TAXONOMY_LAYERS,
+  TaxonomyLayer,
+  TaxonomyOverrides,
+  categoriesForLayer,
+  collectNodeNames,
+  resolveMapping,
+} from '../services/taxonomy';
+import { BudgetDomain } from '../services/budgetDomains';
+import { SparklesIcon, TagIcon, XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  cache: BudgetCache;
+  // Names, vocabulary and mappings all belong to this domain
+  domain: BudgetDomain;
+  overrides: TaxonomyOverrides;
+  onChange: (next: TaxonomyOverrides) => void;
+  // Resolves with the AI's assignments for the given names
+  onClassify: (items: NamedNode[], domain: BudgetDomain) => Promise<TaxonomyOverrides>;
+  onClose: () => void;
+}
+
+const SOURCE_STYLES = {
+  rule: 'bg-slate-100 text-slate-500',
+  ai: 'bg-indigo-50 text-indigo-600',
+  manual: 'bg-emerald-50 text-emerald-700',
+};
+
+const TaxonomyManager: React.FC<Props> = ({ cache, domain, overrides, onChange, onClassify, onClose }) => {
+  const [layer, setLayer] = useState<TaxonomyLayer | 'all'>('all');
+  const [query, setQuery] = useState('');
+  const [unmappedOnly, setUnmappedOnly] = useState(false);
+  const [classifying, setClassifying] = useState(false);
+
+  const names = useMemo(() => collectNodeNames(cache, domain.id), [cache, domain.id]);
+  const rows = useMemo(
+    () => names.map(item => ({ item, mapping: resolveMapping(domain.id, item.layer, item.name, overrides) })),
+    [names, domain.id, overrides]
+  );
+  const visible = rows.filter(({ item, mapping }) =>
+    (layer === 'all' || item.layer === layer)
+    && (!query || item.name.includes(query))
+    && (!unmappedOnly || mapping.category.id.endsWith('_other')));
+
+  // Only names the rules could not place; anything set by hand is left alone
+  const aiCandidates = rows.filter(({ mapping }) => mapping.source === 'rule' && mapping.category.id.endsWith('_other')).map(r => r.item);
+
+  const setCategory = (item: NamedNode, categoryId: string) => {
+    onChange({ ...overrides, [item.key]: { categoryId, source: 'manual' } });
+  };
+
+  const resetMapping = (item: NamedNode) => {
+    const next = { ...overrides };
+    delete next[item.key];
+    onChange(next);
+  };
+
+  const handleClassify = async () => {
+    setClassifying(true);
+    try {
+      const result = await onClassify(aiCandidates, domain);
+      const assigned = Object.keys(result).length;
+      onChange({ ...overrides, ...result });
+      alert(`${aiCandidates.length} 件中 ${assigned} 件をAIが分類しました。`);
+    } catch (err: any) {
+      console.error(err);
+      alert(err?.message || 'AIによる分類に失敗しました。');
+    } finally {
+      setClassifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <TagIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-lg font-bold text-slate-800">分類の対応表 <span className="text-emerald-600">{domain.label}</span></h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            各区の財源・費目・事業カテゴリーの名称を標準分類に対応づけます。ここでの設定は比較グラフ・ツールチップ・CSV・Excelの全てに反映されます。
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 rounded-xl border border-slate-100 text-xs">
+            <select value={layer} onChange={(e) => setLayer(e.target.value as TaxonomyLayer | 'all')} className="px-2 py-1.5 rounded-lg border border-slate-200">
+              <option value="all">全ての階層</option>
+              {TAXONOMY_LAYERS.map(l => <option key={l} value={l}>{LAYER_LABELS[l]}</option>)}
+            </select>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="名称で絞り込み"
+              className="px-2 py-1.5 rounded-lg border border-slate-200 w-40"
+            />
+            <label className="flex items-center gap-1.5 font-bold text-slate-600">
+              <input type="checkbox" checked={unmappedOnly} onChange={(e) => setUnmappedOnly(e.target.checked)} />
+              「その他」のみ
+            </label>
+            <button
+              onClick={handleClassify}
+              disabled={classifying || aiCandidates.length === 0}
+              className="ml-auto flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 text-white rounded-lg font-bold hover:bg-indigo-500 disabled:opacity-40"
+              title="ルールで分類できなかった名称をAIに判定させます（手動の設定は変更しません）"
+            >
+              <SparklesIcon className={`w-4 h-4 ${classifying ? 'animate-pulse' : ''}`} />
+              {classifying ? '分類中…' : `未分類 ${aiCandidates.length} 件をAIで分類`}
+            </button>
+          </div>
+
+          {names.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-8">保存されている予算データがありません。</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-slate-500 border-b border-slate-200">
+                <tr>
+                  <th className="px-3 py-2 text-left">階層</th>
+                  <th className="px-3 py-2 text-left">名称</th>
+                  <th className="px-3 py-2 text-right">使用区数</th>
+                  <th className="px-3 py-2 text-left">標準分類</th>
+                  <th className="px-3 py-2 text-left">判定</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(({ item, mapping }) => (
+                  <tr key={item.key} className="border-b border-slate-50 hover:bg-slate-50">
+                    <td className="px-3 py-2 text-slate-500">{LAYER_LABELS[item.layer]}</td>
+                    <td className="px-3 py-2 font-bold text-slate-700">{item.name}</td>
+                    <td className="px-3 py-2 text-right" title={item.cities.join('・')}>{item.cities.length}</td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={mapping.category.id}
+                        onChange={(e) => setCategory(item, e.target.value)}
+                        className="px-2 py-1 rounded-lg border border-slate-200"
+                      >
+                        {categoriesForLayer(domain.id, item.layer).map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className={`px-1.5 py-0.5 rounded font-bold ${SOURCE_STYLES[mapping.source]}`}>{MAPPING_SOURCE_LABELS[mapping.source]}</span>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {mapping.source !== 'rule' && (
+                        <button onClick={() => resetMapping(item)} title="ルールによる分類に戻す" className="p-1 text-slate-400 hover:text-slate-700">
+                          <ArrowUturnLeftIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaxonomyManager;
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { BudgetVersion, CachedBudget } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { DiffStatus, diffSankeyData } from '../services/budgetDiff';
+import { describeOrigin, listVersions, versionIdOf } from '../services/budgetVersions';
+import { rootTotal } from '../services/wardMetrics';
+import { formatDelta } from './SankeyChart';
+import { formatJapaneseCurrency } from '../App';
+import { ClockIcon, XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  budget: CachedBudget;
+  // Stores a copy of the version as the newest one
+  onRestore: (version: BudgetVersion) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; className: string }> = {
+  added: { label: '追加', className: 'bg-emerald-50 text-emerald-700' },
+  removed: { label: '削除', className: 'bg-red-50 text-red-700' },
+  increased: { label: '増額', className: 'bg-emerald-50 text-emerald-700' },
+  decreased: { label: '減額', className: 'bg-red-50 text-red-700' },
+  unchanged: { label: '変更なし', className: 'bg-slate-100 text-slate-500' },
+};
+
+const VersionTimeline: React.FC<Props> = ({ budget, onRestore, onClose }) => {
+  const versions = useMemo(() => listVersions(budget), [budget]);
+  // Compared as base → target; by default the previous version against the current one
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  const findVersion = (id: string | null) => versions.find(v => versionIdOf(v) === id);
+  const target = findVersion(targetId) || versions[0];
+  const chosenBase = findVersion(baseId);
+  const base = chosenBase && chosenBase !== target ? chosenBase : versions[versions.indexOf(target) + 1] || null;
+
+  const diff = useMemo(() => (base ? diffSankeyData(base.data, target.data) : null), [base, target]);
+  const changedLinks = diff ? diff.links.filter(l => l.status !== 'unchanged') : [];
+
+  const handleRestore = (version: BudgetVersion) => {
+    if (!confirm(`${new Date(version.timestamp).toLocaleString()} の版を復元しますか？現在のデータも履歴に残ります。`)) return;
+    onRestore(version);
+    setBaseId(null);
+    setTargetId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/60 flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <ClockIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-lg font-bold text-slate-800">
+              版の履歴 <span className="text-emerald-600">{budget.city} {FISCAL_YEAR_LABELS[budget.fiscalYear]}</span>
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6 p-6 overflow-y-auto">
+          <ol className="lg:col-span-2 space-y-2">
+            {versions.map((version, idx) => {
+              const id = versionIdOf(version);
+              const isTarget = version === target;
+              const isBase = version === base;
+              return (
+                <li
+                  key={id}
+                  className={`p-3 rounded-xl border text-xs space-y-1 ${
+                    isTarget ? 'border-emerald-400 bg-emerald-50/50' : isBase ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-200'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-slate-800">{new Date(version.timestamp).toLocaleString()}</span>
+                    {idx === 0 && <span className="px-1.5 py-0.5 rounded bg-emerald-600 text-white text-[10px] font-bold">現在</span>}
+                  </div>
+                  <p className="text-slate-600">{describeOrigin(version.origin, versions)}</p>
+                  <p className="text-slate-400">
+                    作成者: {version.author || '未設定'}・総額 {formatJapaneseCurrency(rootTotal(version.data))}・ノード {version.data.nodes.length}・リンク {version.data.links.length}
+                  </p>
+                  <div className="flex items-center gap-2 pt-1">
+                    <button
+                      onClick={() => setBaseId(id)}
+                      disabled={isBase || isTarget}
+                      className="px-2 py-0.5 rounded-lg border border-slate-200 bg-white font-bold text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                    >
+                      比較元
+                    </button>
+                    <button
+                      onClick={() => setTargetId(id)}
+                      disabled={isTarget}
+                      className="px-2 py-0.5 rounded-lg border border-slate-200 bg-white font-bold text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+                    >
+                      比較先
+                    </button>
+                    {idx > 0 && (
+                      <button
+                        onClick={() => handleRestore(version)}
+                        className="ml-auto flex items-center gap-1 px-2 py-0.5 rounded-lg text-slate-500 font-bold hover:bg-slate-100"
+                      >
+                        <ArrowUturnLeftIcon className="w-3.5 h-3.5" />
+                        復元
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+
+          <div className="lg:col-span-3 space-y-3">
+            {!base || !diff ? (
+              <p className="text-sm text-slate-400 text-center py-8">比較できる以前の版がありません。</p>
+            ) : (
+              <>
+                <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 text-xs space-y-1">
+                  <p className="text-slate-500">
+                    {new Date(base.timestamp).toLocaleString()} → {new Date(target.timestamp).toLocaleString()}
+                  </p>
+                  <p className="font-bold text-slate-700">
+                    財源合計 {formatJapaneseCurrency(diff.totalBefore)} → {formatJapaneseCurrency(diff.totalAfter)}
+                    <span className="ml-2 text-slate-500">{formatDelta(diff.totalAfter - diff.totalBefore, diff.totalBefore ? ((diff.totalAfter - diff.totalBefore) / diff.totalBefore) * 100 : null)}</span>
+                  </p>
+                  <p className="text-slate-500">変更されたリンク {changedLinks.length} 件</p>
+                </div>
+                {changedLinks.length === 0 ? (
+                  <p className="text-sm text-slate-400 text-center py-8">金額・構成の違いはありません。</p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead className="text-slate-500 border-b border-slate-200">
+                      <tr>
+                        <th className="px-2 py-2 text-left">リンク</th>
+                        <th className="px-2 py-2 text-right">比較元</th>
+                        <th className="px-2 py-2 text-right">比較先</th>
+                        <th className="px-2 py-2 text-left">状態</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedLinks.map(link => (
+                        <tr key={`${link.source}->${link.target}`} className="border-b border-slate-50">
+                          <td className="px-2 py-1.5 text-slate-700">{link.sourceName} → {link.targetName}</td>
+                          <td className="px-2 py-1.5 text-right">{link.status === 'added' ? '—' : formatJapaneseCurrency(link.before)}</td>
+                          <td className="px-2 py-1.5 text-right font-bold">{link.status === 'removed' ? '—' : formatJapaneseCurrency(link.after)}</td>
+                          <td className="px-2 py-1.5">
+                            <span className={`px-1.5 py-0.5 rounded font-bold ${STATUS_STYLES[link.status].className}`}>{STATUS_STYLES[link.status].label}</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionTimeline;
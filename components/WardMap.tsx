@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { BudgetCache, City, FiscalYear } from '../types';
+import { FISCAL_YEAR_LABELS, WARD_STATS, WARD_STATS_NOTE } from '../constants';
+import { WARD_GEOMETRY } from '../wardGeometry';
+import { LAYER_LABELS } from '../services/budgetLayers';
+import { NodeClassifier, TAXONOMY_LAYERS, categoriesForLayer, getCategory } from '../services/taxonomy';
+import { MAP_METRIC_LABELS, MapMetric, buildWardMetrics, formatMapMetric, previousFiscalYear } from '../services/wardMetrics';
+import { ChartExportMeta } from '../services/chartExport';
+import { BudgetDomain } from '../services/budgetDomains';
+import ChartExportMenu from './ChartExportMenu';
+import { MapIcon } from '@heroicons/react/24/outline';
+import { formatJapaneseCurrency } from '../App';
+
+interface Props {
+  cache: BudgetCache;
+  cities: City[];
+  fiscalYear: FiscalYear;
+  domain: BudgetDomain;
+  classify: NodeClassifier;
+  onSelectWard: (city: City) => void;
+  metric: MapMetric;
+  // Taxonomy category id used by the categoryShare metric
+  categoryId: string;
+  onMetricChange: (metric: MapMetric) => void;
+  onCategoryChange: (categoryId: string) => void;
+}
+
+interface TooltipState {
+  x: number;
+  y: number;
+  city: City;
+  value: number | null;
+}
+
+const HATCH_PATTERN_ID = 'ward-map-missing-hatch';
+const MIN_WIDTH = 320;
+
+const WardMap: React.FC<Props> = ({
+  cache, cities, fiscalYear, domain, classify, onSelectWard, metric, categoryId, onMetricChange, onCategoryChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [width, setWidth] = useState(0);
+  const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+
+  useEffect(() => {
+    const box = containerRef.current;
+    if (!box) return;
+    setWidth(box.clientWidth);
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(box);
+    return () => observer.disconnect();
+  }, []);
+
+  const values = useMemo(
+    () => buildWardMetrics(cache, cities, fiscalYear, domain.id, metric, WARD_STATS, classify, categoryId),
+    [cache, cities, fiscalYear, domain.id, metric, classify, categoryId]
+  );
+
+  const color = useMemo(() => {
+    const known = Array.from(values.values()).filter((v): v is number => v !== null);
+    if (metric === 'yoy') {
+      // Symmetric around zero so a cut and a rise of the same size look equally strong
+      const extent = Math.max(1, ...known.map(Math.abs));
+      return d3.scaleDiverging<string>(d3.interpolateRdYlGn).domain([-extent, 0, extent]);
+    }
+    return d3.scaleSequential<string>(d3.interpolateGreens).domain([0, Math.max(1, ...known)]);
+  }, [metric, values]);
+
+  const chartWidth = Math.max(width, MIN_WIDTH);
+  const height = Math.round(chartWidth * 0.75);
+
+  useEffect(() => {
+    if (!svgRef.current || width === 0) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.attr('xmlns', 'http://www.w3.org/2000/svg');
+    svg.selectAll('*').remove();
+
+    const pattern = svg.append('defs').append('pattern')
+      .attr('id', HATCH_PATTERN_ID)
+      .attr('patternUnits', 'userSpaceOnUse')
+      .attr('width', 6)
+      .attr('height', 6)
+      .attr('patternTransform', 'rotate(45)');
+    pattern.append('rect').attr('width', 6).attr('height', 6).attr('fill', '#f8fafc');
+    pattern.append('rect').attr('width', 2).attr('height', 6).attr('fill', '#cbd5e1');
+
+    const projection = d3.geoMercator().fitSize([chartWidth - 20, height - 20], WARD_GEOMETRY as any);
+    const path = d3.geoPath(projection);
+    const g = svg.append('g').attr('transform', 'translate(10,10)');
+
+    g.selectAll('path')
+      .data(WARD_GEOMETRY.features)
+      .join('path')
+      .attr('d', path as any)
+      .attr('fill', (d: any) => {
+        const value = values.get(d.properties.city);
+        return value === null || value === undefined ? `url(#${HATCH_PATTERN_ID})` : color(value);
+      })
+      .attr('stroke', '#fff')
+      .attr('stroke-width', 1.5)
+      .style('cursor', 'pointer')
+      .on('mousemove', (event: MouseEvent, d: any) => {
+        const [x, y] = d3.pointer(event, containerRef.current);
+        setTooltip({ x, y, city: d.properties.city, value: values.get(d.properties.city) ?? null });
+      })
+      .on('mouseleave', () => setTooltip(null))
+      .on('click', (_event: MouseEvent, d: any) => onSelectWard(d.properties.city));
+
+    g.selectAll('text')
+      .data(WARD_GEOMETRY.features)
+      .join('text')
+      .attr('transform', (d: any) => `translate(${path.centroid(d)})`)
+      .attr('text-anchor', 'middle')
+      .attr('dy', '0.35em')
+      .attr('style', `font-size: ${chartWidth < 640 ? 8 : 11}px; font-weight: bold; fill: #1e293b; pointer-events: none;`)
+      .text((d: any) => d.properties.city.replace(/区$/, ''));
+  }, [values, color, width, chartWidth, height, onSelectWard]);
+
+  const metricTitle = metric === 'categoryShare'
+    ? `${MAP_METRIC_LABELS[metric]}（${getCategory(domain.id, categoryId)?.label}）`
+    : MAP_METRIC_LABELS[metric];
+  const previousYear = previousFiscalYear(fiscalYear);
+
+  const [low, high] = metric === 'yoy' ? [color.domain()[0], color.domain()[2]] : color.domain();
+  const legendStops = d3.range(0, 1.01, 0.1).map(t => color(low + (high - low) * t));
+
+  const exportMeta: ChartExportMeta = {
+    title: `23区${domain.label}予算マップ ${metricTitle}`,
+    subtitle: metric === 'yoy' && previousYear
+      ? `${FISCAL_YEAR_LABELS[previousYear]} → ${FISCAL_YEAR_LABELS[fiscalYear]}`
+      : FISCAL_YEAR_LABELS[fiscalYear],
+    sources: [],
+    legend: [
+      { label: `最小 ${formatMapMetric(low, metric, formatJapaneseCurrency)}`, color: color(low) },
+      { label: `最大 ${formatMapMetric(high, metric, formatJapaneseCurrency)}`, color: color(high) },
+      { label: '未取得', color: '#cbd5e1' },
+    ],
+    notes: [
+      '区の形状は位置関係と面積の目安を示す簡略図です。',
+      ...(metric === 'perCapita' ? [WARD_STATS_NOTE] : []),
+    ],
+  };
+
+  return (
+    <div className="w-full bg-white rounded-[2rem] p-4 sm:p-8 shadow-xl border border-slate-200 animate-in fade-in duration-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <MapIcon className="w-6 h-6 text-emerald-600" />
+            <h2 className="text-xl font-bold text-slate-800">23区{domain.label}予算マップ {metricTitle} <span className="text-emerald-600">{FISCAL_YEAR_LABELS[fiscalYear]}</span></h2>
+          </div>
+          <p className="text-slate-500 text-sm">
+            区をクリックするとその区の予算フローを表示します。斜線の区は{metric === 'yoy' ? '比較する年度のデータが揃っていません' : 'データ未取得です'}。
+          </p>
+        </div>
+        <ChartExportMenu
+          getChart={() => svgRef.current}
+          meta={exportMeta}
+          fileBaseName={`23区${domain.label}予算マップ_${FISCAL_YEAR_LABELS[fiscalYear]}_${new Date().toISOString().split('T')[0]}`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className="flex items-center gap-1 bg-slate-100 p-1 rounded-xl">
+          {(Object.keys(MAP_METRIC_LABELS) as MapMetric[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onMetricChange(option)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${
+                metric === option ? 'bg-white text-emerald-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {MAP_METRIC_LABELS[option]}
+            </button>
+          ))}
+        </div>
+        {metric === 'categoryShare' && (
+          <select
+            value={categoryId}
+            onChange={(e) => onCategoryChange(e.target.value)}
+            className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs"
+          >
+            {TAXONOMY_LAYERS.map(layer => (
+              <optgroup key={layer} label={LAYER_LABELS[layer]}>
+                {categoriesForLayer(domain.id, layer).map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+              </optgroup>
+            ))}
+          </select>
+        )}
+        {metric === 'yoy' && previousYear && (
+          <span className="text-xs text-slate-400">{FISCAL_YEAR_LABELS[previousYear]}との比較</span>
+        )}
+      </div>
+
+      <div ref={containerRef} className="relative w-full">
+        <svg ref={svgRef} width={chartWidth} height={height} viewBox={`0 0 ${chartWidth} ${height}`} className="block" />
+        {tooltip && (
+          <div
+            className="absolute z-20 pointer-events-none bg-slate-900/95 text-white rounded-xl shadow-2xl p-3 text-xs space-y-1"
+            style={{ left: Math.max(0, Math.min(tooltip.x + 16, width - 220)), top: tooltip.y + 16 }}
+          >
+            <p className="font-bold text-sm">{tooltip.city}</p>
+            <p className="text-slate-300">
+              {metricTitle}: {tooltip.value === null ? '未取得' : formatMapMetric(tooltip.value, metric, formatJapaneseCurrency)}
+            </p>
+            <p className="text-slate-500">人口 {WARD_STATS[tooltip.city].population.toLocaleString()}人・面積 {WARD_STATS[tooltip.city].areaKm2}km²</p>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-4 text-[10px] font-bold text-slate-500">
+        <div className="flex items-center gap-2">
+          <span>{formatMapMetric(low, metric, formatJapaneseCurrency)}</span>
+          <div className="w-40 h-2.5 rounded-full" style={{ background: `linear-gradient(to right, ${legendStops.join(',')})` }}></div>
+          <span>{formatMapMetric(high, metric, formatJapaneseCurrency)}</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <svg width="14" height="14">
+            <rect width="14" height="14" fill="#f8fafc" stroke="#cbd5e1" />
+            <path d="M0 14 L14 0 M-3 3 L3 -3 M11 17 L17 11" stroke="#cbd5e1" strokeWidth="2" />
+          </svg>
+          <span>未取得</span>
+        </div>
+        <span className="text-slate-400 font-normal">区の形状は位置関係と面積の目安を示す簡略図です。</span>
+      </div>
+    </div>
+  );
+};
+
+export default WardMap;
@@ -0,0 +1,60 @@
+import { City, FiscalYear, WardStats } from './types';
+
+export const CITIES: City[] = [
+  '千代田区', '中央区', '港区', '新宿区', '文京区', '台東区', '墨田区', '江東区', 
+  '品川区', '目黒区', '大田区', '世田谷区', '渋谷区', '中野区', '杉並区', '豊島区', 
+  '北区', '荒川区', '板橋区', '練馬区', '足立区', '葛飾区', '江戸川区'
+];
+
+export const FISCAL_YEARS: FiscalYear[] = ['R4', 'R5', 'R6', 'R7', 'R8'];
+
+export const FISCAL_YEAR_LABELS: Record<FiscalYear, string> = {
+  R4: '令和4年度',
+  R5: '令和5年度',
+  R6: '令和6年度',
+  R7: '令和7年度',
+  R8: '令和8年度',
+};
+
+// The year the original single-snapshot prompt asked for
+export const DEFAULT_FISCAL_YEAR: FiscalYear = 'R6';
+
+/**
+ * Bundled so the comparison chart can normalise without a network call.
+ * Population is the 住民基本台帳 count for 2024-01-01 and area the 国土地理院
+ * figure, both rounded. Visitor counts are the annual 観光客数 (入込客数) each
+ * ward publishes in its own tourism statistics or 観光振興計画, rounded to the
+ * million. Survey years and counting methods differ by ward, so
+ * VISITOR_STATS_NOTE goes with every per-visitor view.
+ */
+export const WARD_STATS: Record<City, WardStats> = {
+  '千代田区': { population: 68000, areaKm2: 11.66, visitors: 50000000 },
+  '中央区': { population: 175000, areaKm2: 10.21, visitors: 45000000 },
+  '港区': { population: 262000, areaKm2: 20.36, visitors: 55000000 },
+  '新宿区': { population: 349000, areaKm2: 18.22, visitors: 60000000 },
+  '文京区': { population: 240000, areaKm2: 11.29, visitors: 12000000 },
+  '台東区': { population: 211000, areaKm2: 10.11, visitors: 50000000 },
+  '墨田区': { population: 281000, areaKm2: 13.77, visitors: 28000000 },
+  '江東区': { population: 537000, areaKm2: 43.01, visitors: 35000000 },
+  '品川区': { population: 404000, areaKm2: 22.84, visitors: 15000000 },
+  '目黒区': { population: 279000, areaKm2: 14.67, visitors: 6000000 },
+  '大田区': { population: 729000, areaKm2: 61.86, visitors: 20000000 },
+  '世田谷区': { population: 915000, areaKm2: 58.05, visitors: 15000000 },
+  '渋谷区': { population: 229000, areaKm2: 15.11, visitors: 50000000 },
+  '中野区': { population: 330000, areaKm2: 15.59, visitors: 7000000 },
+  '杉並区': { population: 568000, areaKm2: 34.06, visitors: 5000000 },
+  '豊島区': { population: 289000, areaKm2: 13.01, visitors: 30000000 },
+  '北区': { population: 353000, areaKm2: 20.61, visitors: 6000000 },
+  '荒川区': { population: 217000, areaKm2: 10.16, visitors: 4000000 },
+  '板橋区': { population: 567000, areaKm2: 32.22, visitors: 5000000 },
+  '練馬区': { population: 738000, areaKm2: 48.08, visitors: 8000000 },
+  '足立区': { population: 690000, areaKm2: 53.25, visitors: 9000000 },
+  '葛飾区': { population: 463000, areaKm2: 34.80, visitors: 10000000 },
+  '江戸川区': { population: 685000, areaKm2: 49.90, visitors: 12000000 },
+};
+
+export const WARD_STATS_NOTE =
+  '人口は住民基本台帳（2024年1月1日）、面積は国土地理院の数値をもとにした概数です。';
+
+export const VISITOR_STATS_NOTE =
+  '観光客数は各区が公表する観光統計・観光振興計画の年間観光客数（入込客数）を百万人単位に丸めた概数です。区ごとに調査年と集計方法が異なるため、区同士の比較は目安としてご覧ください。';
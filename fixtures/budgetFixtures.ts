@@ -0,0 +1,181 @@
+import { City, FiscalYear, SankeyLink, SankeyNode } from '../types';
+import { FISCAL_YEARS, FISCAL_YEAR_LABELS } from '../constants';
+
+/**
+ * Canned model answers for the offline provider. Most wards get a well-formed,
+ * balanced four-layer graph; a handful are deliberately broken so the parse,
+ * retry and quota paths can be exercised without a network.
+ */
+export type FixtureKind = 'valid' | 'invalid_json' | 'units_in_values' | 'unbalanced' | 'prose_only' | 'quota';
+
+export const FIXTURE_KINDS: Partial<Record<City, FixtureKind>> = {
+  '北区': 'invalid_json',
+  '荒川区': 'units_in_values',
+  '板橋区': 'unbalanced',
+  '練馬区': 'prose_only',
+  '足立区': 'quota',
+};
+
+// Ward-specific signature projects, so fixtures look different from each other
+const SIGNATURE_ITEMS: Record<City, string> = {
+  '千代田区': '丸の内・皇居周辺観光案内事業',
+  '中央区': '銀座・日本橋まち歩き推進事業',
+  '港区': '港区シティプロモーション事業',
+  '新宿区': '新宿観光振興協会補助',
+  '文京区': '文京ミューズネット事業',
+  '台東区': '浅草観光ボランティアガイド事業',
+  '墨田区': 'すみだ北斎美術館連携事業',
+  '江東区': '深川・清澄白河回遊促進事業',
+  '品川区': 'しながわ観光協会補助',
+  '目黒区': '目黒川桜まつり支援',
+  '大田区': '羽田空港周辺観光PR事業',
+  '世田谷区': 'せたがや観光案内所運営',
+  '渋谷区': '渋谷ナイトタイム観光推進事業',
+  '中野区': '中野区観光資源発掘事業',
+  '杉並区': '阿佐谷七夕まつり支援',
+  '豊島区': '池袋国際アート・カルチャー都市推進事業',
+  '北区': '王子・飛鳥山観光振興事業',
+  '荒川区': '都電荒川線沿線観光推進事業',
+  '板橋区': 'いたばし花火大会支援',
+  '練馬区': 'アニメのまち練馬推進事業',
+  '足立区': '足立の花火支援',
+  '葛飾区': '柴又観光拠点整備事業',
+  '江戸川区': '葛西臨海公園周辺観光推進事業',
+};
+
+const REVENUES = [
+  { id: 'rev_general', name: '一般財源', share: 0.7 },
+  { id: 'rev_national', name: '国庫支出金', share: 0.1 },
+  { id: 'rev_metro', name: '都支出金', share: 0.15 },
+  { id: 'rev_other', name: 'その他特定財源', share: 0.05 },
+];
+
+const EXPENDITURES = [
+  { id: 'exp_tourism', name: '観光振興費' },
+  { id: 'exp_industry', name: '産業振興費' },
+];
+
+const CATEGORIES = [
+  { id: 'cat_promotion', name: 'プロモーション', expenditure: 'exp_tourism' },
+  { id: 'cat_event', name: 'イベント支援', expenditure: 'exp_tourism' },
+  { id: 'cat_facility', name: '施設整備', expenditure: 'exp_industry' },
+  { id: 'cat_reception', name: '受入環境整備', expenditure: 'exp_tourism' },
+];
+
+// Relative weights of each item; `from`/`until` let the fixture show new and dropped projects across years
+const ITEMS: { id: string; name?: string; category: string; weight: number; from?: FiscalYear; until?: FiscalYear }[] = [
+  { id: 'item_signature', category: 'cat_promotion', weight: 0.22 },
+  { id: 'item_web', name: '観光情報ウェブサイト運営', category: 'cat_promotion', weight: 0.08 },
+  { id: 'item_festival', name: '地域まつり・イベント補助', category: 'cat_event', weight: 0.18 },
+  { id: 'item_signage', name: '多言語観光案内サイン整備', category: 'cat_facility', weight: 0.2 },
+  { id: 'item_toilet', name: '観光トイレ改修', category: 'cat_facility', weight: 0.1, until: 'R5' },
+  { id: 'item_wifi', name: '公衆無線LAN整備', category: 'cat_reception', weight: 0.12 },
+  { id: 'item_dx', name: '観光DX推進事業', category: 'cat_reception', weight: 0.1, from: 'R6' },
+];
+
+const YEAR_GROWTH: Record<FiscalYear, number> = { R4: 0.85, R5: 0.92, R6: 1, R7: 1.06, R8: 1.1 };
+
+// Small deterministic hash so every ward gets a stable but distinct budget size
+const hash = (text: string) => Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+const inYear = (item: typeof ITEMS[number], fiscalYear: FiscalYear) => {
+  const idx = FISCAL_YEARS.indexOf(fiscalYear);
+  if (item.from && idx < FISCAL_YEARS.indexOf(item.from)) return false;
+  if (item.until && idx > FISCAL_YEARS.indexOf(item.until)) return false;
+  return true;
+};
+
+export const buildFixtureGraph = (city: City, fiscalYear: FiscalYear) => {
+  const base = 80000 + (hash(city) % 12) * 25000;
+  const total = Math.round(base * YEAR_GROWTH[fiscalYear]);
+  const items = ITEMS.filter(item => inYear(item, fiscalYear));
+  const weightSum = items.reduce((sum, item) => sum + item.weight, 0);
+
+  const nodes: SankeyNode[] = [];
+  const links: SankeyLink[] = [];
+  const itemAmounts = items.map(item => ({ ...item, value: Math.round((total * item.weight) / weightSum) }));
+  const categoryTotals = new Map<string, number>();
+  itemAmounts.forEach((item, idx) => {
+    const name = item.name || SIGNATURE_ITEMS[city];
+    // The newest project has no published figure yet, which exercises the "estimated" rendering
+    const estimated = item.id === 'item_dx' || undefined;
+    const evidence = estimated ? undefined : [{
+      title: `${city} ${FISCAL_YEAR_LABELS[fiscalYear]}予算の概要（サンプル）`,
+      page: `p.${12 + idx}`,
+      quote: `${name} ${item.value.toLocaleString()}千円`,
+    }];
+    nodes.push({ id: item.id, name, estimated, evidence, confidence: estimated ? 0.4 : 0.9 });
+    links.push({ source: item.category, target: item.id, value: item.value, estimated, evidence });
+    categoryTotals.set(item.category, (categoryTotals.get(item.category) || 0) + item.value);
+  });
+
+  const expenditureTotals = new Map<string, number>();
+  CATEGORIES.filter(cat => categoryTotals.has(cat.id)).forEach(cat => {
+    nodes.push({ id: cat.id, name: cat.name });
+    const value = categoryTotals.get(cat.id)!;
+    links.push({ source: cat.expenditure, target: cat.id, value });
+    expenditureTotals.set(cat.expenditure, (expenditureTotals.get(cat.expenditure) || 0) + value);
+  });
+
+  EXPENDITURES.filter(exp => expenditureTotals.has(exp.id)).forEach(exp => {
+    nodes.push({ id: exp.id, name: exp.name });
+    const value = expenditureTotals.get(exp.id)!;
+    // The last revenue source absorbs rounding so every node balances exactly
+    let remaining = value;
+    REVENUES.forEach((rev, idx) => {
+      const share = idx === REVENUES.length - 1 ? remaining : Math.round(value * rev.share);
+      remaining -= share;
+      links.push({ source: rev.id, target: exp.id, value: share });
+    });
+  });
+  REVENUES.forEach(rev => nodes.push({ id: rev.id, name: rev.name }));
+
+  return { nodes, links, total };
+};
+
+const explanationFor = (city: City, fiscalYear: FiscalYear, total: number) =>
+  `【オフライン・フィクスチャ】${city}の${FISCAL_YEAR_LABELS[fiscalYear]}観光関連予算のサンプルデータです。` +
+  `総額は${total.toLocaleString()}千円で、実在の予算書とは一致しません。開発・デモ・テスト用です。`;
+
+const wellFormedAnswer = (city: City, fiscalYear: FiscalYear) => {
+  const { nodes, links, total } = buildFixtureGraph(city, fiscalYear);
+  return JSON.stringify({ nodes, links, explanation: explanationFor(city, fiscalYear, total) }, null, 2);
+};
+
+/**
+ * Successive answers the fake model gives for a ward. Broken fixtures are
+ * corrected on the second answer, except prose_only which never yields JSON.
+ */
+export const getFixtureAnswers = (city: City, fiscalYear: FiscalYear): string[] => {
+  const valid = wellFormedAnswer(city, fiscalYear);
+  const { nodes, links, total } = buildFixtureGraph(city, fiscalYear);
+  switch (FIXTURE_KINDS[city] || 'valid') {
+    case 'invalid_json':
+      return [`以下が調査結果です。\n\`\`\`json\n${valid.slice(0, Math.floor(valid.length / 2))}\n\`\`\``, valid];
+    case 'units_in_values':
+      return [
+        JSON.stringify({
+          nodes,
+          links: links.map(l => ({ ...l, value: `${l.value.toLocaleString()}千円` })),
+          explanation: explanationFor(city, fiscalYear, total),
+        }),
+        valid,
+      ];
+    case 'unbalanced':
+      return [
+        JSON.stringify({
+          nodes,
+          links: [
+            ...links.map(l => (l.source.startsWith('cat_') ? { ...l, value: l.value * 2 } : l)),
+            { source: 'item_signature', target: 'cat_promotion', value: 1000 },
+          ],
+          explanation: explanationFor(city, fiscalYear, total),
+        }),
+        valid,
+      ];
+    case 'prose_only':
+      return [`${city}の${FISCAL_YEAR_LABELS[fiscalYear]}観光関連予算は公開資料から特定できませんでした。観光協会への補助金が中心と考えられます。`];
+    default:
+      return [valid];
+  }
+};
@@ -0,0 +1,178 @@
+import { BudgetCache, BudgetResponse, City, FiscalYear } from '../types';
+import { budgetKey } from './budgetCache';
+import { DEFAULT_DOMAIN_ID } from './budgetDomains';
+import { isQuotaError } from './budgetExtraction';
+
+const BATCH_JOB_KEY = 'tokyo_23_batch_job_v1';
+
+export type BatchItemStatus = 'pending' | 'backoff' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  city: City;
+  status: BatchItemStatus;
+  // Quota retries so far; other errors fail the ward immediately
+  retries: number;
+  nextRetryAt?: number;
+  error?: string;
+  finishedAt?: number;
+}
+
+export interface BatchJobOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  // Cached wards older than this are fetched again
+  staleAfterDays: number;
+}
+
+export interface BatchJob {
+  id: string;
+  fiscalYear: FiscalYear;
+  // Jobs saved before domains existed have none and were tourism
+  domain?: string;
+  createdAt: number;
+  // 'running' survives a reload, which is what makes the job resume on the next visit
+  state: 'running' | 'paused' | 'completed' | 'cancelled';
+  options: BatchJobOptions;
+  items: BatchItem[];
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchJobOptions = {
+  concurrency: 2,
+  maxRetries: 5,
+  baseDelayMs: 5000,
+  staleAfterDays: 30,
+};
+
+export const BATCH_STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: '待機中',
+  backoff: '制限待ち',
+  running: '取得中',
+  done: '完了',
+  failed: '失敗',
+};
+
+export const loadBatchJob = (): BatchJob | null => {
+  try {
+    const saved = localStorage.getItem(BATCH_JOB_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveBatchJob = (job: BatchJob | null) => {
+  if (job) localStorage.setItem(BATCH_JOB_KEY, JSON.stringify(job));
+  else localStorage.removeItem(BATCH_JOB_KEY);
+};
+
+export const isStale = (timestamp: number, staleAfterDays: number) =>
+  Date.now() - timestamp > staleAfterDays * 24 * 60 * 60 * 1000;
+
+export const selectWardsToFetch = (cache: BudgetCache, cities: City[], fiscalYear: FiscalYear, domain: string, staleAfterDays: number) =>
+  cities.filter(city => {
+    const cached = cache[budgetKey(city, fiscalYear, domain)];
+    return !cached || isStale(cached.timestamp, staleAfterDays);
+  });
+
+export const createBatchJob = (cities: City[], fiscalYear: FiscalYear, domain: string, options: BatchJobOptions): BatchJob => ({
+  id: `${fiscalYear}-${domain}-${Date.now()}`,
+  fiscalYear,
+  domain,
+  createdAt: Date.now(),
+  state: 'running',
+  options,
+  items: cities.map(city => ({ city, status: 'pending', retries: 0 })),
+});
+
+export interface BatchHandlers {
+  onUpdate: (job: BatchJob) => void;
+  onResult: (city: City, fiscalYear: FiscalYear, domain: string, result: BudgetResponse) => void;
+}
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  if (ms <= 0 || signal.aborted) return resolve();
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+/**
+ * Works through the job's wards with a small worker pool. A quota error backs
+ * off exponentially and holds every worker until the wait is over, since the
+ * quota is shared. Progress is saved after every change so a reload can
+ * resume; aborting the signal leaves the job paused.
+ */
+export const runBatchJob = async (
+  initial: BatchJob,
+  fetcher: (city: City, fiscalYear: FiscalYear, domain: string) => Promise<BudgetResponse>,
+  handlers: BatchHandlers,
+  signal: AbortSignal
+): Promise<BatchJob> => {
+  // Wards caught mid-fetch by a reload or pause simply start over
+  let job: BatchJob = {
+    ...initial,
+    state: 'running',
+    items: initial.items.map(i => (i.status === 'running' ? { ...i, status: 'pending' } : i)),
+  };
+  let pausedUntil = 0;
+  const domain = initial.domain || DEFAULT_DOMAIN_ID;
+
+  const commit = (next: BatchJob) => {
+    job = next;
+    saveBatchJob(job);
+    handlers.onUpdate(job);
+  };
+  const updateItem = (city: City, patch: Partial<BatchItem>) => {
+    commit({ ...job, items: job.items.map(i => (i.city === city ? { ...i, ...patch } : i)) });
+  };
+  commit(job);
+
+  // Claims are local so a ward waiting out a backoff keeps showing as such
+  const claimed = new Set<City>();
+  const claimNext = (): BatchItem | null => {
+    const waiting = job.items
+      .filter(i => (i.status === 'pending' || i.status === 'backoff') && !claimed.has(i.city))
+      .sort((a, b) => (a.nextRetryAt || 0) - (b.nextRetryAt || 0));
+    const item = waiting[0];
+    if (item) claimed.add(item.city);
+    return item || null;
+  };
+
+  const worker = async () => {
+    while (!signal.aborted) {
+      const item = claimNext();
+      if (!item) return;
+
+      await sleep(Math.max(pausedUntil, item.nextRetryAt || 0) - Date.now(), signal);
+      if (signal.aborted) return;
+      updateItem(item.city, { status: 'running' });
+
+      try {
+        const result = await fetcher(item.city, job.fiscalYear, domain);
+        if (signal.aborted) {
+          updateItem(item.city, { status: 'pending' });
+          return;
+        }
+        handlers.onResult(item.city, job.fiscalYear, domain, result);
+        updateItem(item.city, { status: 'done', error: undefined, nextRetryAt: undefined, finishedAt: Date.now() });
+      } catch (err: any) {
+        if (isQuotaError(err) && item.retries < job.options.maxRetries) {
+          const delay = job.options.baseDelayMs * 2 ** item.retries + Math.random() * 1000;
+          pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+          updateItem(item.city, { status: 'backoff', retries: item.retries + 1, nextRetryAt: Date.now() + delay, error: err.message });
+        } else {
+          updateItem(item.city, { status: 'failed', error: err?.message || String(err), finishedAt: Date.now() });
+        }
+      } finally {
+        claimed.delete(item.city);
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(job.options.concurrency, job.items.length));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+
+  const unfinished = job.items.some(i => i.status !== 'done' && i.status !== 'failed');
+  commit({ ...job, state: signal.aborted && unfinished ? 'paused' : 'completed' });
+  return job;
+};
@@ -0,0 +1,60 @@
+import { BudgetCache, BudgetResponse, CachedBudget, City, FiscalYear } from '../types';
+import { CITIES, DEFAULT_FISCAL_YEAR, FISCAL_YEARS } from '../constants';
+import { DEFAULT_DOMAIN_ID, domainOf } from './budgetDomains';
+
+const CACHE_KEY = 'tokyo_23_budget_cache_v3';
+const LEGACY_CACHE_KEY = 'tokyo_23_budget_cache_v2';
+
+// Tourism keeps the original two-part key, so data saved before domains existed stays where it was
+export const budgetKey = (city: City, fiscalYear: FiscalYear, domain: string): string =>
+  domain === DEFAULT_DOMAIN_ID ? `${city}:${fiscalYear}` : `${city}:${fiscalYear}:${domain}`;
+
+/**
+ * v2 held one snapshot per ward with no year. Those snapshots were produced by
+ * the old hardcoded 令和6年度 prompt, so they are filed under DEFAULT_FISCAL_YEAR.
+ */
+const migrateLegacyCache = (legacy: Record<string, BudgetResponse & { timestamp: number }>): BudgetCache => {
+  const migrated: BudgetCache = {};
+  Object.entries(legacy).forEach(([city, budget]) => {
+    if (!budget || !CITIES.includes(city as City)) return;
+    const fiscalYear = budget.fiscalYear || DEFAULT_FISCAL_YEAR;
+    migrated[budgetKey(city as City, fiscalYear, DEFAULT_DOMAIN_ID)] = { ...budget, city: city as City, fiscalYear };
+  });
+  return migrated;
+};
+
+/**
+ * Reads whatever the localStorage-era app left behind (v3, or the older v2
+ * single-year blob). Only used once, when the IndexedDB store is created.
+ */
+export const readLegacyCache = (): BudgetCache => {
+  try {
+    const saved = localStorage.getItem(CACHE_KEY);
+    if (saved) return JSON.parse(saved);
+    const legacy = localStorage.getItem(LEGACY_CACHE_KEY);
+    return legacy ? migrateLegacyCache(JSON.parse(legacy)) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const clearLegacyCache = () => {
+  localStorage.removeItem(CACHE_KEY);
+  localStorage.removeItem(LEGACY_CACHE_KEY);
+};
+
+export const getCachedYears = (cache: BudgetCache, city: City, domain: string): FiscalYear[] =>
+  Object.values(cache)
+    .filter((entry): entry is CachedBudget => !!entry && entry.city === city && domainOf(entry) === domain)
+    .map(entry => entry.fiscalYear)
+    .sort((a, b) => FISCAL_YEARS.indexOf(a) - FISCAL_YEARS.indexOf(b));
+
+/**
+ * Files `next` under the same key while keeping what it replaces, so no
+ * refresh or merge destroys the earlier data.
+ */
+export const replaceBudget = (previous: CachedBudget | undefined, next: CachedBudget): CachedBudget => {
+  if (!previous) return next;
+  const { versions = [], ...replaced } = previous;
+  return { ...next, versions: [...versions, replaced] };
+};
@@ -0,0 +1,103 @@
+import { BudgetCache, City, FiscalYear, WardStats } from '../types';
+import { budgetKey } from './budgetCache';
+import { BudgetLayer, getLayer } from './budgetLayers';
+import { NodeClassifier } from './taxonomy';
+
+export interface WardBreakdown {
+  city: City;
+  total: number;
+  // Money at one layer of the budget, grouped by node name
+  categories: { name: string; value: number }[];
+}
+
+export type ComparisonMetric = 'total' | 'perCapita' | 'perVisitor' | 'share';
+
+// Layers a comparison can be stacked by; 具体的細目 never line up across wards
+export type ComparisonStack = Exclude<BudgetLayer, 'item'>;
+
+export const COMPARISON_STACKS: ComparisonStack[] = ['rev', 'exp', 'cat'];
+
+export const COMPARISON_METRIC_LABELS: Record<ComparisonMetric, string> = {
+  total: '総額',
+  perCapita: '住民1人あたり',
+  perVisitor: '観光客1人あたり',
+  share: '構成比',
+};
+
+const FALLBACK_NAMES: Partial<Record<BudgetLayer, string>> = {
+  rev: 'その他財源',
+  exp: 'その他費目',
+  cat: 'その他事業',
+};
+
+/**
+ * Per-ward breakdown at one layer for one fiscal year, largest budget first.
+ * Revenue is measured by what leaves each rev_ node; the lower layers by what
+ * flows into each node, so a node fed from several sources is counted once.
+ * With a classifier, names are merged under their taxonomy label.
+ */
+export const buildLayerComparison = (
+  cache: BudgetCache,
+  cities: City[],
+  fiscalYear: FiscalYear,
+  domain: string,
+  layer: BudgetLayer,
+  classify?: NodeClassifier
+): WardBreakdown[] =>
+  cities.map(city => {
+    const data = cache[budgetKey(city, fiscalYear, domain)];
+    if (!data) return { city, total: 0, categories: [] };
+
+    const nameMap = new Map(data.data.nodes.map(n => [n.id, n.name]));
+    const categoryMap = new Map<string, number>();
+
+    data.data.links.forEach(link => {
+      const id = layer === 'rev' ? link.source : link.target;
+      if (getLayer(id) !== layer) return;
+      const rawName = nameMap.get(id);
+      const name = (rawName && classify?.(id, rawName)) || rawName || FALLBACK_NAMES[layer] || 'その他';
+      categoryMap.set(name, (categoryMap.get(name) || 0) + link.value);
+    });
+
+    const categories = Array.from(categoryMap.entries()).map(([name, value]) => ({ name, value }));
+    const total = categories.reduce((sum, c) => sum + c.value, 0);
+
+    return { city, total, categories };
+  }).sort((a, b) => b.total - a.total);
+
+export const buildRevenueComparison = (cache: BudgetCache, cities: City[], fiscalYear: FiscalYear, domain: string, classify?: NodeClassifier): WardBreakdown[] =>
+  buildLayerComparison(cache, cities, fiscalYear, domain, 'rev', classify);
+
+/**
+ * Rescales each ward's figures for the chosen metric: 千円 for totals, 円 per
+ * resident or visitor, or percent of the ward's own total. Wards are re-sorted
+ * since the order changes with the metric.
+ */
+export const normalizeComparison = (rows: WardBreakdown[], metric: ComparisonMetric, stats: Record<City, WardStats>): WardBreakdown[] => {
+  if (metric === 'total') return rows;
+  const divisor = (row: WardBreakdown) => {
+    if (metric === 'share') return row.total / 100;
+    const people = metric === 'perCapita' ? stats[row.city]?.population : stats[row.city]?.visitors;
+    // 千円 to 円
+    return people ? people / 1000 : 0;
+  };
+  return rows.map(row => {
+    const by = divisor(row);
+    if (!by) return { ...row, total: 0, categories: [] };
+    const categories = row.categories.map(c => ({ name: c.name, value: c.value / by }));
+    return { ...row, total: categories.reduce((sum, c) => sum + c.value, 0), categories };
+  }).sort((a, b) => b.total - a.total);
+};
+
+export const formatMetricValue = (value: number, metric: ComparisonMetric, formatKYen: (kYen: number) => string) => {
+  if (metric === 'total') return formatKYen(value);
+  if (metric === 'share') return `${value.toFixed(1)}%`;
+  return `${Math.round(value).toLocaleString()}円`;
+};
+
+// Sorted so colours and columns stay put as wards are added
+export const categoryNames = (rows: WardBreakdown[]) => {
+  const names = new Set<string>();
+  rows.forEach(d => d.categories.forEach(cat => names.add(cat.name)));
+  return Array.from(names).sort();
+};
@@ -0,0 +1,355 @@
+import { BudgetCache, BudgetResponse, CachedBudget, City, FiscalYear, SankeyData, SankeyNode, SankeyLink } from '../types';
+import { CITIES, FISCAL_YEARS, FISCAL_YEAR_LABELS } from '../constants';
+import { budgetKey, replaceBudget } from './budgetCache';
+import { stampVersion } from './budgetVersions';
+import { BudgetLayer, BUDGET_LAYERS, LAYER_LABELS, getLayer } from './budgetLayers';
+import { NodeClassifier } from './taxonomy';
+
+export type CsvField =
+  | 'city' | 'fiscalYear' | 'source' | 'target' | 'value' | 'displayValue'
+  | 'sourceId' | 'targetId' | 'sourceLayer' | 'targetLayer';
+
+// Column index per field, or null when the file has no such column
+export type ColumnMapping = Record<CsvField, number | null>;
+
+export const CSV_FIELDS: CsvField[] = [
+  'city', 'fiscalYear', 'source', 'target', 'value', 'displayValue',
+  'sourceId', 'targetId', 'sourceLayer', 'targetLayer',
+];
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  city: '自治体名',
+  fiscalYear: '年度',
+  source: '元項目',
+  target: '先項目',
+  value: '金額(千円)',
+  displayValue: '金額(表示用)',
+  sourceId: '元ID',
+  targetId: '先ID',
+  sourceLayer: '元階層',
+  targetLayer: '先階層',
+};
+
+/**
+ * Column order of every CSV the app writes; the importer maps these headers
+ * automatically. The trailing taxonomy columns are for reading only and are
+ * ignored on import.
+ */
+export const CSV_EXPORT_HEADERS = [...CSV_FIELDS.map(field => CSV_FIELD_LABELS[field]), '元分類', '先分類'];
+
+/**
+ * One row per link, carrying node ids and layers so an import rebuilds the
+ * same graph. formatAmount fills the human-readable 金額(表示用) column.
+ */
+export const budgetCsvRows = (
+  budget: Pick<BudgetResponse, 'data' | 'fiscalYear'> & { city: string },
+  formatAmount: (kYen: number) => string,
+  classify: NodeClassifier
+): (string | number)[][] => {
+  const nodeNameMap = new Map(budget.data.nodes.map(n => [n.id, n.name]));
+  const layerLabel = (id: string) => {
+    const layer = getLayer(id);
+    return layer ? LAYER_LABELS[layer] : '';
+  };
+  return budget.data.links.map(link => {
+    const sourceName = nodeNameMap.get(link.source) || link.source;
+    const targetName = nodeNameMap.get(link.target) || link.target;
+    return [
+      budget.city,
+      FISCAL_YEAR_LABELS[budget.fiscalYear],
+      sourceName,
+      targetName,
+      link.value,
+      formatAmount(link.value),
+      link.source,
+      link.target,
+      layerLabel(link.source),
+      layerLabel(link.target),
+      classify(link.source, sourceName) || '',
+      classify(link.target, targetName) || '',
+    ];
+  });
+};
+
+const REQUIRED_FIELDS: CsvField[] = ['source', 'target'];
+
+// Header spellings seen in our own exports and in hand-made sheets
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  city: ['自治体名', '自治体', '区', '区名', 'city'],
+  fiscalYear: ['年度', 'fiscalyear', 'year'],
+  source: ['元項目', '流出元', '財源科目', 'source', 'from'],
+  target: ['先項目', '流入先', 'target', 'to'],
+  value: ['金額(千円)', '金額（千円）', '金額', 'value', 'amount'],
+  displayValue: ['金額(表示用)', '金額（表示用）'],
+  sourceId: ['元ID', 'sourceid'],
+  targetId: ['先ID', 'targetid'],
+  sourceLayer: ['元階層', 'sourcelayer'],
+  targetLayer: ['先階層', 'targetlayer'],
+};
+
+const normaliseHeader = (cell: string) => cell.trim().toLowerCase().replace(/\s/g, '');
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const cells = header.map(normaliseHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  CSV_FIELDS.forEach(field => {
+    const index = cells.findIndex((cell, i) => !used.has(i) && HEADER_ALIASES[field].some(alias => normaliseHeader(alias) === cell));
+    mapping[field] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  });
+  return mapping;
+};
+
+// City and year may be left unmapped; the importer falls back to a chosen default
+export const missingRequiredFields = (mapping: ColumnMapping): CsvField[] => [
+  ...REQUIRED_FIELDS.filter(field => mapping[field] === null),
+  ...(mapping.value === null && mapping.displayValue === null ? ['value' as CsvField] : []),
+];
+
+/**
+ * Reads amounts in 千円. Accepts "1,234", "1234.5", "1,234千円" and the
+ * "12.34 億円" / "1,234.5 万円" strings that formatJapaneseCurrency produces.
+ */
+export const parseAmount = (raw: string): number | null => {
+  const text = raw.trim().replace(/[，,\s]/g, '').replace(/[０-９．]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0xfee0));
+  if (text === '') return null;
+  const match = text.match(/^(-?\d+(?:\.\d+)?)(億円|百万円|万円|千円|円)?$/);
+  if (!match) return null;
+  const amount = Number(match[1]);
+  switch (match[2]) {
+    case '億円': return amount * 100000;
+    case '百万円': return amount * 1000;
+    case '万円': return amount * 10;
+    case '円': return amount / 1000;
+    default: return amount;
+  }
+};
+
+export const parseFiscalYear = (raw: string): FiscalYear | null => {
+  const text = raw.trim().replace(/\s/g, '');
+  const byLabel = FISCAL_YEARS.find(y => FISCAL_YEAR_LABELS[y] === text);
+  if (byLabel) return byLabel;
+  const match = text.match(/^(?:R|令和)?(\d+)(?:年度?)?$/i);
+  const year = match && (`R${Number(match[1])}` as FiscalYear);
+  return year && FISCAL_YEARS.includes(year) ? year : null;
+};
+
+export const parseLayer = (raw: string): BudgetLayer | null => {
+  const text = raw.trim();
+  return BUDGET_LAYERS.find(layer => layer === text.toLowerCase() || LAYER_LABELS[layer] === text) || null;
+};
+
+export interface ImportedLink {
+  // Display names
+  source: string;
+  target: string;
+  value: number;
+  // Present when the file came from our own export, or was mapped by hand
+  sourceId?: string;
+  targetId?: string;
+  sourceLayer?: BudgetLayer;
+  targetLayer?: BudgetLayer;
+}
+
+export interface ImportGroup {
+  key: string;
+  city: City;
+  fiscalYear: FiscalYear;
+  domain: string;
+  links: ImportedLink[];
+  total: number;
+  // The cached entry this group will overwrite, if any
+  replaces?: CachedBudget;
+}
+
+export interface RowError {
+  // 1-based record number in the file, header included (a quoted line break stays in one record)
+  row: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  groups: ImportGroup[];
+  errors: RowError[];
+}
+
+export interface ImportDefaults {
+  city?: City;
+  fiscalYear: FiscalYear;
+  // The file has no domain column, so every row lands in the domain being viewed
+  domain: string;
+}
+
+/**
+ * Older exports wrote 金額(表示用) unquoted, so "1,234 万円" spilled into an
+ * extra cell. When that column is last, the overflow is folded back into it.
+ */
+const foldOverflow = (cells: string[], headerLength: number, mapping: ColumnMapping) =>
+  cells.length > headerLength && mapping.displayValue === headerLength - 1
+    ? [...cells.slice(0, headerLength - 1), cells.slice(headerLength - 1).join(',')]
+    : cells;
+
+export const buildImportPreview = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaults: ImportDefaults,
+  cache: BudgetCache
+): ImportPreview => {
+  const [header, ...body] = rows;
+  const errors: RowError[] = [];
+  const groups = new Map<string, ImportGroup>();
+  const cell = (cells: string[], field: CsvField) => (mapping[field] === null ? '' : (cells[mapping[field]!] ?? '').trim());
+
+  body.forEach((rawCells, idx) => {
+    const row = idx + 2;
+    const cells = foldOverflow(rawCells, header.length, mapping);
+    const fail = (message: string) => errors.push({ row, message });
+
+    const cityText = cell(cells, 'city');
+    const city = (cityText || defaults.city) as City | undefined;
+    if (!city) return fail('自治体名がありません。');
+    if (!CITIES.includes(city)) return fail(`「${cityText}」は23区の名称として認識できません。`);
+
+    const yearText = cell(cells, 'fiscalYear');
+    const fiscalYear = yearText ? parseFiscalYear(yearText) : defaults.fiscalYear;
+    if (!fiscalYear) return fail(`年度「${yearText}」を認識できません。`);
+
+    const source = cell(cells, 'source');
+    const target = cell(cells, 'target');
+    if (!source || !target) return fail('元項目または先項目が空です。');
+
+    const valueText = cell(cells, 'value') || cell(cells, 'displayValue');
+    const value = parseAmount(valueText);
+    if (value === null) return fail(`金額「${valueText}」を数値として読み取れません。`);
+    if (value < 0) return fail(`金額が負の値です（${valueText}）。`);
+
+    const layers: Partial<Record<'sourceLayer' | 'targetLayer', BudgetLayer>> = {};
+    for (const field of ['sourceLayer', 'targetLayer'] as const) {
+      const text = cell(cells, field);
+      if (!text) continue;
+      const layer = parseLayer(text);
+      if (!layer) return fail(`${CSV_FIELD_LABELS[field]}「${text}」を認識できません（${BUDGET_LAYERS.map(l => LAYER_LABELS[l]).join('・')}のいずれか）。`);
+      layers[field] = layer;
+    }
+
+    // The same name may sit on two layers (観光振興 as both 費目 and 事業カテゴリー), so the ids or layers
+    // decide; names alone only when a side has neither
+    const sourceId = cell(cells, 'sourceId') || undefined;
+    const targetId = cell(cells, 'targetId') || undefined;
+    const sourceKey = sourceId || (layers.sourceLayer && `${layers.sourceLayer}_${source}`);
+    const targetKey = targetId || (layers.targetLayer && `${layers.targetLayer}_${target}`);
+    if (sourceKey && targetKey ? sourceKey === targetKey : source === target) {
+      return fail(`元項目と先項目が同じです（${source}）。`);
+    }
+
+    const key = budgetKey(city, fiscalYear, defaults.domain);
+    if (!groups.has(key)) groups.set(key, { key, city, fiscalYear, domain: defaults.domain, links: [], total: 0, replaces: cache[key] });
+    const group = groups.get(key)!;
+    group.links.push({
+      source,
+      target,
+      value,
+      sourceId,
+      targetId,
+      ...layers,
+    });
+  });
+
+  groups.forEach(group => {
+    const targets = new Set(group.links.map(l => l.target));
+    // Only money entering from the roots counts, so the total isn't multiplied by depth
+    group.total = group.links.filter(l => !targets.has(l.source)).reduce((sum, l) => sum + l.value, 0);
+  });
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => CITIES.indexOf(a.city) - CITIES.indexOf(b.city) || FISCAL_YEARS.indexOf(a.fiscalYear) - FISCAL_YEARS.indexOf(b.fiscalYear)),
+    errors,
+  };
+};
+
+/**
+ * Longest-path depth of each name from the roots, clamped to the last layer.
+ * Names whose layer is known elsewhere in the file keep it. A cycle (the same
+ * name used on two layers) is cut where it is found rather than recursing.
+ */
+const inferDepths = (links: ImportedLink[], known: Map<string, number>) => {
+  const sourcesOf = new Map<string, string[]>();
+  links.forEach(l => sourcesOf.set(l.target, [...(sourcesOf.get(l.target) || []), l.source]));
+
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+  const depthOf = (name: string): number => {
+    if (known.has(name)) return known.get(name)!;
+    if (depths.has(name)) return depths.get(name)!;
+    if (visiting.has(name)) return 0;
+    visiting.add(name);
+    const parents = sourcesOf.get(name) || [];
+    const depth = parents.length === 0 ? 0 : Math.min(BUDGET_LAYERS.length - 1, 1 + Math.max(...parents.map(depthOf)));
+    visiting.delete(name);
+    depths.set(name, depth);
+    return depth;
+  };
+  return depthOf;
+};
+
+/**
+ * Turns imported rows back into SankeyData. Each endpoint uses, in order: the
+ * exported node id, the layer column plus its name, or a layer inferred from
+ * where the name sits in the graph. The ids always carry a rev_/exp_/cat_/item_
+ * prefix, so imported wards behave like fetched ones and a name that repeats
+ * across layers stays two separate nodes.
+ */
+export const buildImportedData = (links: ImportedLink[]): SankeyData => {
+  // A name with exactly one explicit layer in the file lends it to rows that lack one
+  const explicitLayers = new Map<string, Set<number>>();
+  const noteLayer = (name: string, id?: string, layer?: BudgetLayer) => {
+    const index = layer ? BUDGET_LAYERS.indexOf(layer) : id && getLayer(id) ? BUDGET_LAYERS.indexOf(getLayer(id)!) : -1;
+    if (index !== -1) explicitLayers.set(name, (explicitLayers.get(name) || new Set<number>()).add(index));
+  };
+  links.forEach(l => {
+    noteLayer(l.source, l.sourceId, l.sourceLayer);
+    noteLayer(l.target, l.targetId, l.targetLayer);
+  });
+  const known = new Map(Array.from(explicitLayers.entries())
+    .filter(([, layers]) => layers.size === 1)
+    .map(([name, layers]) => [name, Array.from(layers)[0]] as [string, number]));
+  const depthOf = inferDepths(links, known);
+
+  const resolveId = (name: string, id?: string, layer?: BudgetLayer) =>
+    id || `${layer || BUDGET_LAYERS[depthOf(name)]}_${name}`;
+
+  const names = new Map<string, string>();
+  // Repeated rows for the same pair are summed rather than drawn twice
+  const merged = new Map<string, SankeyLink>();
+  links.forEach(l => {
+    const source = resolveId(l.source, l.sourceId, l.sourceLayer);
+    const target = resolveId(l.target, l.targetId, l.targetLayer);
+    names.set(source, l.source);
+    names.set(target, l.target);
+    const key = `${source}\u0000${target}`;
+    const existing = merged.get(key);
+    if (existing) existing.value += l.value;
+    else merged.set(key, { source, target, value: l.value });
+  });
+
+  const nodes: SankeyNode[] = Array.from(names.entries()).map(([id, name]) => ({ id, name }));
+  return { nodes, links: Array.from(merged.values()) };
+};
+
+/** Files each group as a new version of its ward, keeping whatever it replaces. */
+export const applyImport = (cache: BudgetCache, groups: ImportGroup[], fileName: string, author: string): BudgetCache => {
+  const next: BudgetCache = { ...cache };
+  groups.forEach(({ key, city, fiscalYear, domain, links }) => {
+    next[key] = replaceBudget(next[key], {
+      data: buildImportedData(links),
+      explanation: `${city}（${FISCAL_YEAR_LABELS[fiscalYear]}）のCSVインポートデータ（${new Date().toLocaleString()}に反映）`,
+      sources: [],
+      city,
+      fiscalYear,
+      domain,
+      ...stampVersion({ kind: 'csv', fileName }, author),
+    });
+  });
+  return next;
+};
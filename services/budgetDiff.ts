@@ -0,0 +1,162 @@
+import { SankeyData, SankeyNode } from '../types';
+import { BudgetLayer, getLayer, nodeIdentity } from './budgetLayers';
+
+export type DiffStatus = 'added' | 'removed' | 'increased' | 'decreased' | 'unchanged';
+
+export interface NodeDiff {
+  key: string;
+  name: string;
+  layer: BudgetLayer | null;
+  before: number;
+  after: number;
+  delta: number;
+  deltaPct: number | null;
+  status: DiffStatus;
+}
+
+export interface LinkDiff {
+  source: string;
+  target: string;
+  sourceName: string;
+  targetName: string;
+  before: number;
+  after: number;
+  delta: number;
+  deltaPct: number | null;
+  status: DiffStatus;
+}
+
+export interface BudgetDiff {
+  nodes: NodeDiff[];
+  links: LinkDiff[];
+  totalBefore: number;
+  totalAfter: number;
+}
+
+export const linkKey = (source: string, target: string) => `${source}->${target}`;
+
+const classify = (before: number | undefined, after: number | undefined): DiffStatus => {
+  if (before === undefined) return 'added';
+  if (after === undefined) return 'removed';
+  if (after > before) return 'increased';
+  if (after < before) return 'decreased';
+  return 'unchanged';
+};
+
+const percentChange = (before: number, after: number): number | null =>
+  before === 0 ? null : ((after - before) / before) * 100;
+
+// A node's size in d3-sankey is the larger of its inflow and outflow
+export const nodeValues = (data: SankeyData): Map<string, number> => {
+  const inflow = new Map<string, number>();
+  const outflow = new Map<string, number>();
+  data.links.forEach(l => {
+    outflow.set(l.source, (outflow.get(l.source) || 0) + l.value);
+    inflow.set(l.target, (inflow.get(l.target) || 0) + l.value);
+  });
+  return new Map(data.nodes.map(n => [n.id, Math.max(inflow.get(n.id) || 0, outflow.get(n.id) || 0)]));
+};
+
+const sumRevenue = (data: SankeyData) =>
+  data.links.filter(l => getLayer(l.source) === 'rev').reduce((sum, l) => sum + l.value, 0);
+
+/**
+ * Compares two snapshots of the same ward. Nodes are matched by layer and name
+ * (see nodeIdentity), and links by the identities of their endpoints.
+ */
+export const diffSankeyData = (base: SankeyData, next: SankeyData): BudgetDiff => {
+  const index = (data: SankeyData) => {
+    const byId = new Map<string, SankeyNode>(data.nodes.map(n => [n.id, n]));
+    const values = nodeValues(data);
+    const nodes = new Map<string, { name: string; layer: BudgetLayer | null; value: number }>();
+    data.nodes.forEach(n => {
+      const key = nodeIdentity(n);
+      const existing = nodes.get(key);
+      nodes.set(key, {
+        name: n.name.trim(),
+        layer: getLayer(n.id),
+        value: (existing?.value || 0) + (values.get(n.id) || 0),
+      });
+    });
+    const links = new Map<string, { source: string; target: string; value: number }>();
+    data.links.forEach(l => {
+      const s = byId.get(l.source);
+      const t = byId.get(l.target);
+      if (!s || !t) return;
+      const source = nodeIdentity(s);
+      const target = nodeIdentity(t);
+      const key = linkKey(source, target);
+      links.set(key, { source, target, value: (links.get(key)?.value || 0) + l.value });
+    });
+    return { nodes, links };
+  };
+
+  const a = index(base);
+  const b = index(next);
+
+  const nodeKeys = new Set([...a.nodes.keys(), ...b.nodes.keys()]);
+  const nodes: NodeDiff[] = Array.from(nodeKeys).map(key => {
+    const prev = a.nodes.get(key);
+    const curr = b.nodes.get(key);
+    const before = prev?.value || 0;
+    const after = curr?.value || 0;
+    return {
+      key,
+      name: (curr || prev)!.name,
+      layer: (curr || prev)!.layer,
+      before,
+      after,
+      delta: after - before,
+      deltaPct: percentChange(before, after),
+      status: classify(prev?.value, curr?.value),
+    };
+  });
+
+  const nameOf = (key: string) => (b.nodes.get(key) || a.nodes.get(key))?.name || key;
+  const linkKeys = new Set([...a.links.keys(), ...b.links.keys()]);
+  const links: LinkDiff[] = Array.from(linkKeys).map(key => {
+    const prev = a.links.get(key);
+    const curr = b.links.get(key);
+    const { source, target } = (curr || prev)!;
+    const before = prev?.value || 0;
+    const after = curr?.value || 0;
+    return {
+      source,
+      target,
+      sourceName: nameOf(source),
+      targetName: nameOf(target),
+      before,
+      after,
+      delta: after - before,
+      deltaPct: percentChange(before, after),
+      status: classify(prev?.value, curr?.value),
+    };
+  });
+
+  return { nodes, links, totalBefore: sumRevenue(base), totalAfter: sumRevenue(next) };
+};
+
+// Node keys start with the layer prefix, so prefixing again keeps getLayer() working on union ids
+const diffNodeId = (key: string) => `${key.split(':')[0]}_${key}`;
+
+/**
+ * Union graph of both snapshots for drawing. Each link is sized by the larger
+ * of its two values so dropped flows stay visible next to new ones.
+ */
+export const buildDiffSankeyData = (diff: BudgetDiff): SankeyData => ({
+  nodes: diff.nodes.map(n => ({ id: diffNodeId(n.key), name: n.name })),
+  links: diff.links.map(l => ({
+    source: diffNodeId(l.source),
+    target: diffNodeId(l.target),
+    value: Math.max(l.before, l.after),
+  })),
+});
+
+export type LinkDeltas = Record<string, Pick<LinkDiff, 'before' | 'after' | 'delta' | 'deltaPct' | 'status'>>;
+
+// Keyed by linkKey() over the ids produced by buildDiffSankeyData
+export const buildLinkDeltas = (diff: BudgetDiff): LinkDeltas =>
+  Object.fromEntries(diff.links.map(l => [
+    linkKey(diffNodeId(l.source), diffNodeId(l.target)),
+    { before: l.before, after: l.after, delta: l.delta, deltaPct: l.deltaPct, status: l.status },
+  ]));
@@ -0,0 +1,89 @@
+import { CachedBudget } from '../types';
+
+/**
+ * A policy area the whole pipeline can be pointed at. `scope` is what the
+ * extraction prompt asks for ({{scope}}); `label` is the short form used in
+ * headings and file names.
+ */
+export interface BudgetDomain {
+  id: string;
+  label: string;
+  scope: string;
+  // Sample names per layer for the prompt; custom domains fall back to ones built from the label
+  examples?: DomainExamples;
+}
+
+export interface DomainExamples {
+  expense: string;
+  category: string;
+  item: string;
+}
+
+export const DEFAULT_DOMAIN_ID = 'tourism';
+
+export const BUILT_IN_DOMAINS: BudgetDomain[] = [
+  {
+    id: DEFAULT_DOMAIN_ID,
+    label: '観光',
+    scope: '観光関連予算',
+    examples: {
+      expense: '観光振興費、産業振興費など',
+      category: 'プロモーション、施設整備、イベント支援など',
+      item: '港区シティプロモーション事業、観光インフォメーション運営など',
+    },
+  },
+  {
+    id: 'culture',
+    label: '文化振興',
+    scope: '文化振興関連予算',
+    examples: {
+      expense: '文化振興費、地域振興費など',
+      category: '文化施設運営、芸術文化事業、文化財保護など',
+      item: '区民文化祭、区立美術館の企画展、伝統芸能の継承支援など',
+    },
+  },
+  {
+    id: 'industry',
+    label: '産業振興',
+    scope: '産業振興関連予算',
+    examples: {
+      expense: '産業経済費、商工費など',
+      category: '中小企業支援、創業支援、融資あっせんなど',
+      item: '中小企業融資の利子補給、創業支援セミナー、ものづくり企業の販路開拓支援など',
+    },
+  },
+  {
+    id: 'shopping_streets',
+    label: '商店街支援',
+    scope: '商店街支援関連予算',
+    examples: {
+      expense: '産業経済費、商店街振興費など',
+      category: '商店街イベント支援、街路灯整備、空き店舗対策など',
+      item: '商店街イベント補助、街路灯LED化補助、プレミアム付商品券事業など',
+    },
+  },
+];
+
+// Domains added in settings come after the built-in ones and can't shadow them
+export const allDomains = (custom: BudgetDomain[]): BudgetDomain[] => [
+  ...BUILT_IN_DOMAINS,
+  ...custom.filter(d => !BUILT_IN_DOMAINS.some(b => b.id === d.id)),
+];
+
+export const findDomain = (custom: BudgetDomain[], id: string): BudgetDomain =>
+  allDomains(custom).find(d => d.id === id) || BUILT_IN_DOMAINS[0];
+
+export const createCustomDomain = (label: string, scope: string): BudgetDomain => ({
+  id: `custom_${Date.now().toString(36)}`,
+  label: label.trim(),
+  scope: scope.trim() || `${label.trim()}関連予算`,
+});
+
+export const domainExamples = (domain: BudgetDomain): DomainExamples => domain.examples || {
+  expense: `${domain.label}に関する費目など`,
+  category: `${domain.label}の事業分類など`,
+  item: `資料に記載された${domain.label}の事業名など`,
+};
+
+// Everything cached before domains existed was tourism
+export const domainOf = (budget: Pick<CachedBudget, 'domain'>) => budget.domain || DEFAULT_DOMAIN_ID;
@@ -0,0 +1,121 @@
+import { SankeyData, SankeyLink, SankeyNode } from '../types';
+import { BUDGET_LAYERS, BudgetLayer, getLayer } from './budgetLayers';
+
+// Edits made by hand in the budget editor. Every operation returns a new
+// SankeyData and flags what it touched as manual, so a correction can still be
+// told apart from AI output after the ward is refreshed.
+
+const sameLink = (a: Pick<SankeyLink, 'source' | 'target'>, b: Pick<SankeyLink, 'source' | 'target'>) =>
+  a.source === b.source && a.target === b.target;
+
+const markNode = (node: SankeyNode, changes: Partial<SankeyNode>): SankeyNode => ({ ...node, ...changes, manual: true });
+
+// A hand-written amount has no document behind it, so the AI's evidence no longer applies
+const markLink = (link: SankeyLink, changes: Partial<SankeyLink>): SankeyLink => ({
+  ...link,
+  ...changes,
+  manual: true,
+  estimated: false,
+  confidence: undefined,
+  evidence: undefined,
+});
+
+/** The layer directly above, i.e. where a node's incoming links must start. */
+export const parentLayer = (layer: BudgetLayer): BudgetLayer | null =>
+  BUDGET_LAYERS[BUDGET_LAYERS.indexOf(layer) - 1] || null;
+
+// Same rev_/exp_/cat_/item_ scheme as CSV import, with a suffix if the name is taken
+const newNodeId = (data: SankeyData, layer: BudgetLayer, name: string) => {
+  const base = `${layer}_${name.trim()}`;
+  const ids = new Set(data.nodes.map(n => n.id));
+  let id = base;
+  for (let i = 2; ids.has(id); i++) id = `${base}_${i}`;
+  return id;
+};
+
+export const addNode = (data: SankeyData, layer: BudgetLayer, name: string): SankeyData => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('名称を入力してください。');
+  return { ...data, nodes: [...data.nodes, { id: newNodeId(data, layer, trimmed), name: trimmed, manual: true }] };
+};
+
+export const renameNode = (data: SankeyData, id: string, name: string): SankeyData => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('名称を入力してください。');
+  return { ...data, nodes: data.nodes.map(n => (n.id === id ? markNode(n, { name: trimmed }) : n)) };
+};
+
+/** Removes the node together with every link into or out of it. */
+export const deleteNode = (data: SankeyData, id: string): SankeyData => ({
+  nodes: data.nodes.filter(n => n.id !== id),
+  links: data.links.filter(l => l.source !== id && l.target !== id),
+});
+
+export const addLink = (data: SankeyData, source: string, target: string, value: number): SankeyData => {
+  if (data.links.some(l => sameLink(l, { source, target }))) throw new Error('同じ組み合わせのリンクが既にあります。');
+  return { ...data, links: [...data.links, markLink({ source, target, value }, {})] };
+};
+
+export const setLinkValue = (data: SankeyData, link: Pick<SankeyLink, 'source' | 'target'>, value: number): SankeyData => ({
+  ...data,
+  links: data.links.map(l => (sameLink(l, link) ? markLink(l, { value }) : l)),
+});
+
+/**
+ * Moves a link to a new source, keeping its target and amount. If the new
+ * pair already exists the two amounts are merged rather than drawn twice.
+ */
+export const reparentLink = (data: SankeyData, link: Pick<SankeyLink, 'source' | 'target'>, source: string): SankeyData => {
+  const moving = data.links.find(l => sameLink(l, link));
+  if (!moving || moving.source === source) return data;
+  const existing = data.links.find(l => sameLink(l, { source, target: link.target }));
+  const links = data.links
+    .filter(l => !sameLink(l, link))
+    .map(l => (existing && l === existing ? markLink(l, { value: l.value + moving.value }) : l));
+  return { ...data, links: existing ? links : [...links, markLink(moving, { source })] };
+};
+
+export const deleteLink = (data: SankeyData, link: Pick<SankeyLink, 'source' | 'target'>): SankeyData => ({
+  ...data,
+  links: data.links.filter(l => !sameLink(l, link)),
+});
+
+/** Nodes a link into `target` may start from under the four-layer rule. */
+export const sourceCandidates = (data: SankeyData, target: string): SankeyNode[] => {
+  const layer = getLayer(target);
+  const parent = layer && parentLayer(layer);
+  return parent ? data.nodes.filter(n => getLayer(n.id) === parent) : [];
+};
+
+export const countManualEdits = (data: SankeyData) =>
+  data.nodes.filter(n => n.manual).length + data.links.filter(l => l.manual).length;
+
+export interface EditHistory {
+  past: SankeyData[];
+  present: SankeyData;
+  future: SankeyData[];
+}
+
+// Enough for a long correction session without keeping every keystroke forever
+const HISTORY_LIMIT = 100;
+
+export const createHistory = (data: SankeyData): EditHistory => ({ past: [], present: data, future: [] });
+
+export const pushEdit = (history: EditHistory, next: SankeyData): EditHistory =>
+  next === history.present
+    ? history
+    : { past: [...history.past, history.present].slice(-HISTORY_LIMIT), present: next, future: [] };
+
+export const undo = (history: EditHistory): EditHistory =>
+  history.past.length === 0
+    ? history
+    : {
+      past: history.past.slice(0, -1),
+      present: history.past[history.past.length - 1],
+      future: [history.present, ...history.future],
+    };
+
+export const redo = (history: EditHistory): EditHistory =>
+  history.future.length === 0
+    ? history
+    : { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
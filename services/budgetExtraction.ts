@@ -0,0 +1,151 @@
+import { BudgetResponse, SankeyData, City, FiscalYear, ExtractionAttempt } from "../types";
+import { validateBudget, FindingKind } from "./budgetValidator";
+import { formatSchemaIssue, parseBudgetJson } from "./budgetSchema";
+import { DEFAULT_PROMPT_TEMPLATE, PromptTemplate, renderPrompt } from "./promptTemplates";
+import { BudgetDomain } from "./budgetDomains";
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+export interface FetchOptions {
+  // Total number of model calls, including the first one
+  maxAttempts?: number;
+  // Defaults to the built-in wording
+  template?: PromptTemplate;
+  // Left to the provider's default when unset
+  temperature?: number;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ModelReply {
+  text: string;
+  sources: { title: string; uri: string }[];
+}
+
+// A single model call over the conversation so far; providers adapt their API to this
+export type ChatModel = (messages: ChatMessage[]) => Promise<ModelReply>;
+
+// Findings that the model can reasonably fix when told about them
+const RETRYABLE_FINDINGS: FindingKind[] = [
+  "unbalanced_node", "layer_skip", "backward_link", "invalid_prefix",
+  "invalid_value", "dangling_link", "dropped_cycle", "missing_layer",
+];
+
+interface ParsedAnswer {
+  data: SankeyData;
+  explanation: string;
+  violations: string[];
+}
+
+const parseAnswer = (text: string): ParsedAnswer => {
+  const result = parseBudgetJson(text);
+  if (result.ok === true) return { ...result.value, violations: [] };
+
+  const violations = result.issues.map(formatSchemaIssue);
+  if (!result.value) {
+    const explanation = result.stage === "extract" && !text.includes("{")
+      ? text
+      : `AIの回答を指定の形式として解析できませんでした：\n${violations.map(v => `・${v}`).join("\n")}\n\n以下はAIの回答テキストです：\n\n${text}`;
+    return { data: { nodes: [], links: [] }, explanation, violations };
+  }
+  return { ...result.value, explanation: result.value.explanation || "（AIの回答に解説が含まれていませんでした）", violations };
+};
+
+const findViolations = (parsed: ParsedAnswer): string[] => {
+  if (parsed.violations.length > 0 && parsed.data.nodes.length === 0) return parsed.violations;
+  const report = validateBudget(parsed.data);
+  const structural = report.findings
+    .filter(f => RETRYABLE_FINDINGS.includes(f.kind))
+    .map(f => f.message);
+  if (parsed.data.links.length === 0) structural.push("links が空です。");
+  return [...parsed.violations, ...structural];
+};
+
+const buildFeedback = (violations: string[]) => `
+    あなたの前回の回答には、指定した4層構造のルールに反する以下の問題がありました：
+
+${violations.map((v, i) => `    ${i + 1}. ${v}`).join("\n")}
+
+    上記をすべて修正した完全なJSONを、前回と同じ形式のみで出力し直してください。
+    各ノードの流入額と流出額は一致させ、金額は千円単位の純粋な数値にしてください。
+  `;
+
+/**
+ * Short FNV-1a hash of a prompt. Two results with the same hash were asked
+ * exactly the same question, which is all the audit log needs to show.
+ */
+export const hashPrompt = (prompt: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * Runs the prompt → validate → feedback loop against any chat model. Keeps the
+ * answer with the fewest violations and records every round trip in attempts.
+ * `modelName` is only recorded on the result.
+ */
+export const extractBudget = async (
+  model: ChatModel,
+  modelName: string,
+  city: City,
+  fiscalYear: FiscalYear,
+  domain: BudgetDomain,
+  options: FetchOptions = {}
+): Promise<BudgetResponse> => {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const template = options.template ?? DEFAULT_PROMPT_TEMPLATE;
+  const prompt = renderPrompt(template, city, fiscalYear, domain);
+  const messages: ChatMessage[] = [{ role: "user", content: prompt }];
+  const attempts: ExtractionAttempt[] = [];
+  const sources = new Map<string, { title: string; uri: string }>();
+  let best: { parsed: ParsedAnswer; violations: string[] } | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const reply = await model(messages);
+    reply.sources.forEach(source => sources.set(source.uri, source));
+
+    const parsed = parseAnswer(reply.text);
+    const violations = findViolations(parsed);
+    attempts.push({
+      attempt,
+      prompt: messages[messages.length - 1].content,
+      response: reply.text,
+      violations,
+      timestamp: Date.now(),
+    });
+
+    if (!best || violations.length <= best.violations.length) best = { parsed, violations };
+    if (violations.length === 0) break;
+
+    messages.push({ role: "assistant", content: reply.text });
+    messages.push({ role: "user", content: buildFeedback(violations) });
+  }
+
+  const { data: budgetData, explanation } = best!.parsed;
+
+  // Basic validation of IDs to prevent breakage
+  const nodeIds = new Set(budgetData.nodes.map(n => n.id));
+  budgetData.links = budgetData.links.filter(l => nodeIds.has(l.source) && nodeIds.has(l.target));
+
+  return {
+    data: budgetData,
+    explanation,
+    sources: Array.from(sources.values()),
+    fiscalYear,
+    domain: domain.id,
+    attempts,
+    model: modelName,
+    promptVersion: template.version,
+    promptHash: hashPrompt(prompt),
+  };
+};
+
+export const isQuotaError = (error: any): boolean =>
+  error?.status === 429 || !!error?.message?.includes("429");
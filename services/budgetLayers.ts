@@ -0,0 +1,30 @@
+import { SankeyNode } from '../types';
+
+// The four-layer structure the extraction prompt asks for: 財源 -> 費目 -> 事業カテゴリー -> 具体的細目
+export type BudgetLayer = 'rev' | 'exp' | 'cat' | 'item';
+
+export const BUDGET_LAYERS: BudgetLayer[] = ['rev', 'exp', 'cat', 'item'];
+
+export const LAYER_LABELS: Record<BudgetLayer, string> = {
+  rev: '財源',
+  exp: '費目',
+  cat: '事業カテゴリー',
+  item: '具体的細目',
+};
+
+export const getLayer = (id: string): BudgetLayer | null => {
+  const prefix = id.split('_')[0];
+  return (BUDGET_LAYERS as string[]).includes(prefix) ? prefix as BudgetLayer : null;
+};
+
+export const layerIndex = (id: string): number => {
+  const layer = getLayer(id);
+  return layer ? BUDGET_LAYERS.indexOf(layer) : -1;
+};
+
+/**
+ * Identity of a node across snapshots. The AI invents ids freely between runs,
+ * so the layer plus the display name is the most stable thing to match on.
+ */
+export const nodeIdentity = (node: SankeyNode): string =>
+  `${getLayer(node.id) ?? 'n'}:${node.name.trim()}`;
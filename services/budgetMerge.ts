@@ -0,0 +1,182 @@
+import { SankeyData, SankeyLink, SankeyNode } from '../types';
+import { BUDGET_LAYERS, BudgetLayer, getLayer, nodeIdentity } from './budgetLayers';
+import { linkKey, nodeValues } from './budgetDiff';
+
+export type MergeItemKind = 'node' | 'link';
+
+/**
+ * One difference between the curated data and a new AI result. Values are
+ * 千円 (a node's size for nodes, the amount for links) and null where the item
+ * does not exist in that snapshot.
+ */
+export interface MergeItem {
+  key: string;
+  kind: MergeItemKind;
+  label: string;
+  layer: BudgetLayer | null;
+  curated: number | null;
+  previousAi: number | null;
+  nextAi: number | null;
+  // The curated data had already moved away from the previous AI result here
+  conflict: boolean;
+}
+
+interface IndexedData {
+  nodes: Map<string, SankeyNode>;
+  links: Map<string, SankeyLink>;
+  values: Map<string, number>;
+}
+
+/**
+ * Keys nodes by layer and name, as the diff view does. AI runs invent fresh ids,
+ * but curated data keeps the ids of the result it came from, so a node renamed
+ * by hand can be keyed by its original name via `keyOfId`.
+ */
+const indexData = (data: SankeyData, keyOfId?: Map<string, string>): IndexedData => {
+  const keyOf = (node: SankeyNode) => keyOfId?.get(node.id) ?? nodeIdentity(node);
+  const idToKey = new Map(data.nodes.map(n => [n.id, keyOf(n)]));
+  const sizes = nodeValues(data);
+  const nodes = new Map<string, SankeyNode>();
+  const values = new Map<string, number>();
+  data.nodes.forEach(n => {
+    const key = idToKey.get(n.id)!;
+    if (!nodes.has(key)) nodes.set(key, n);
+    values.set(key, (values.get(key) || 0) + (sizes.get(n.id) || 0));
+  });
+  const links = new Map<string, SankeyLink>();
+  data.links.forEach(l => {
+    const source = idToKey.get(l.source);
+    const target = idToKey.get(l.target);
+    if (source && target) links.set(linkKey(source, target), l);
+  });
+  return { nodes, links, values };
+};
+
+const indexAll = (previousAi: SankeyData | undefined, curated: SankeyData, nextAi: SankeyData) => {
+  const base = indexData(previousAi || { nodes: [], links: [] });
+  const baseKeys = new Map((previousAi?.nodes || []).map(n => [n.id, nodeIdentity(n)]));
+  return { base, ours: indexData(curated, baseKeys), theirs: indexData(nextAi) };
+};
+
+const splitLinkKey = (key: string) => key.split('->') as [string, string];
+
+// Node keys are "layer:name", so the prefix can go through getLayer like an id
+const keyLayer = (nodeKey: string) => getLayer(`${nodeKey.split(':')[0]}_`);
+
+const layerOrder = (layer: BudgetLayer | null) => (layer ? BUDGET_LAYERS.indexOf(layer) : BUDGET_LAYERS.length);
+
+/**
+ * Lists what a refresh would change. Only items the AI itself changed since the
+ * previous AI result are offered: an item that differs only because someone
+ * edited it keeps the edit without asking. Without a previous AI result (a CSV
+ * import or an entry older than aiData) nothing tells an edit from an AI change,
+ * so every difference is a conflict and nothing is accepted by default.
+ */
+export const buildMergeItems = (previousAi: SankeyData | undefined, curated: SankeyData, nextAi: SankeyData): MergeItem[] => {
+  const { base, ours, theirs } = indexAll(previousAi, curated, nextAi);
+  const items: MergeItem[] = [];
+  const noBase = !previousAi;
+
+  const nodeKeys = new Set([...base.nodes.keys(), ...ours.nodes.keys(), ...theirs.nodes.keys()]);
+  nodeKeys.forEach(key => {
+    const inBase = base.nodes.has(key);
+    const inOurs = ours.nodes.has(key);
+    const inTheirs = theirs.nodes.has(key);
+    if (inOurs === inTheirs || inBase === inTheirs) return;
+    const node = (ours.nodes.get(key) || theirs.nodes.get(key))!;
+    items.push({
+      key,
+      kind: 'node',
+      label: node.name,
+      layer: getLayer(node.id),
+      curated: inOurs ? ours.values.get(key) || 0 : null,
+      previousAi: inBase ? base.values.get(key) || 0 : null,
+      nextAi: inTheirs ? theirs.values.get(key) || 0 : null,
+      conflict: noBase || inOurs !== inBase || !!ours.nodes.get(key)?.manual,
+    });
+  });
+
+  const linkKeys = new Set([...base.links.keys(), ...ours.links.keys(), ...theirs.links.keys()]);
+  linkKeys.forEach(key => {
+    const b = base.links.get(key)?.value ?? null;
+    const o = ours.links.get(key)?.value ?? null;
+    const t = theirs.links.get(key)?.value ?? null;
+    if (o === t || b === t) return;
+    const [source, target] = splitLinkKey(key);
+    const nameOf = (nodeKey: string) => (ours.nodes.get(nodeKey) || theirs.nodes.get(nodeKey) || base.nodes.get(nodeKey))?.name || nodeKey;
+    items.push({
+      key,
+      kind: 'link',
+      label: `${nameOf(source)} → ${nameOf(target)}`,
+      layer: keyLayer(target),
+      curated: o,
+      previousAi: b,
+      nextAi: t,
+      conflict: noBase || o !== b || !!ours.links.get(key)?.manual,
+    });
+  });
+
+  return items.sort((a, b) =>
+    Number(b.conflict) - Number(a.conflict)
+    || (a.kind === b.kind ? 0 : a.kind === 'node' ? -1 : 1)
+    || layerOrder(a.layer) - layerOrder(b.layer));
+};
+
+export const mergeItemId = (item: MergeItem) => `${item.kind}:${item.key}`;
+
+// What a plain refresh used to do silently; conflicts are left for the user to decide
+export const defaultAcceptedIds = (items: MergeItem[]) =>
+  new Set(items.filter(item => !item.conflict).map(mergeItemId));
+
+/**
+ * Starts from the curated data and takes the new AI result for every accepted
+ * item. A link needs both ends, so accepting one brings in its nodes, and
+ * dropping a node drops whatever links still touch it.
+ */
+export const applyMerge = (
+  previousAi: SankeyData | undefined,
+  curated: SankeyData,
+  nextAi: SankeyData,
+  accepted: Set<string>
+): SankeyData => {
+  const { ours, theirs } = indexAll(previousAi, curated, nextAi);
+  const nodes = new Map(ours.nodes);
+  const links = new Map(ours.links);
+  const usedIds = new Set(curated.nodes.map(n => n.id));
+
+  const addNode = (key: string) => {
+    if (nodes.has(key)) return;
+    const node = theirs.nodes.get(key);
+    if (!node) return;
+    let id = node.id;
+    for (let i = 2; usedIds.has(id); i++) id = `${node.id}_${i}`;
+    usedIds.add(id);
+    nodes.set(key, { ...node, id });
+  };
+
+  accepted.forEach(entry => {
+    const [kind, ...rest] = entry.split(':');
+    const key = rest.join(':');
+    if (kind === 'node') {
+      if (theirs.nodes.has(key)) addNode(key);
+      else nodes.delete(key);
+      return;
+    }
+    const link = theirs.links.get(key);
+    if (!link) {
+      links.delete(key);
+      return;
+    }
+    const [source, target] = splitLinkKey(key);
+    addNode(source);
+    addNode(target);
+    links.set(key, { ...link, source: nodes.get(source)!.id, target: nodes.get(target)!.id });
+  });
+
+  const ids = new Set(Array.from(nodes.values()).map(n => n.id));
+  return {
+    nodes: Array.from(nodes.values()),
+    links: Array.from(links.values()).filter(l => ids.has(l.source) && ids.has(l.target)),
+  };
+};
+
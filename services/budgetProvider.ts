@@ -0,0 +1,51 @@
+import { BudgetResponse, City, FiscalYear } from "../types";
+import { FetchOptions } from "./budgetExtraction";
+import { BudgetDomain } from "./budgetDomains";
+import { classifyNodeNames, fetchCityBudget, GeminiConfig } from "./geminiService";
+import { classifyFixtureNames, fetchFixtureBudget, FIXTURE_DOMAINS } from "./fixtureService";
+import { classifyOpenAICompatibleNames, fetchOpenAICompatibleBudget, OpenAICompatibleConfig } from "./openAICompatibleService";
+import { NamedNode, TaxonomyOverrides } from "./taxonomy";
+
+export type BudgetProviderId = "gemini" | "fixtures" | "openai-compatible";
+
+export interface BudgetProvider {
+  id: BudgetProviderId;
+  label: string;
+  fetchBudget: (city: City, fiscalYear: FiscalYear, domain: BudgetDomain, options?: FetchOptions) => Promise<BudgetResponse>;
+  // Maps node names onto the shared taxonomy; results are saved as "ai" overrides
+  classifyNames: (items: NamedNode[], domain: BudgetDomain) => Promise<TaxonomyOverrides>;
+  // Domain ids the provider can answer for; left out when it handles any domain
+  domains?: string[];
+}
+
+export const PROVIDER_LABELS: Record<BudgetProviderId, string> = {
+  gemini: "Google Gemini（検索グラウンディング）",
+  fixtures: "オフライン・フィクスチャ",
+  "openai-compatible": "ローカル OpenAI 互換エンドポイント",
+};
+
+export const createBudgetProvider = (
+  id: BudgetProviderId,
+  openAICompatible: OpenAICompatibleConfig,
+  gemini: GeminiConfig
+): BudgetProvider => {
+  const label = PROVIDER_LABELS[id];
+  switch (id) {
+    case "fixtures":
+      return { id, label, fetchBudget: fetchFixtureBudget, classifyNames: classifyFixtureNames, domains: FIXTURE_DOMAINS };
+    case "openai-compatible":
+      return {
+        id,
+        label,
+        fetchBudget: (city, fiscalYear, domain, options) => fetchOpenAICompatibleBudget(openAICompatible, city, fiscalYear, domain, options),
+        classifyNames: (items, domain) => classifyOpenAICompatibleNames(openAICompatible, items, domain),
+      };
+    default:
+      return {
+        id: "gemini",
+        label: PROVIDER_LABELS.gemini,
+        fetchBudget: (city, fiscalYear, domain, options) => fetchCityBudget(gemini, city, fiscalYear, domain, options),
+        classifyNames: (items, domain) => classifyNodeNames(gemini, items, domain),
+      };
+  }
+};
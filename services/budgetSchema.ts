@@ -0,0 +1,267 @@
+import { Schema, Type } from "@google/genai";
+import { Evidence, SankeyData } from "../types";
+
+/**
+ * The one declaration of what a model answer must look like. It is sent to
+ * Gemini as responseSchema, to OpenAI-compatible endpoints as json_schema,
+ * and used below to check answers field by field.
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+}
+
+const evidenceFields: Record<string, JsonSchema> = {
+  confidence: { type: "number", minimum: 0, maximum: 1, description: "この値の確からしさ（0〜1）" },
+  estimated: { type: "boolean", description: "資料に明記がなく推定した値なら true" },
+  evidence: {
+    type: "array",
+    description: "この値を裏付ける資料",
+    items: {
+      type: "object",
+      properties: {
+        uri: { type: "string", description: "資料のURL" },
+        title: { type: "string", description: "資料名" },
+        page: { type: "string", description: "ページ番号や章" },
+        quote: { type: "string", description: "金額が記載された箇所の抜粋" },
+      },
+    },
+  },
+};
+
+export const BUDGET_JSON_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    nodes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "rev_ / exp_ / cat_ / item_ で始まるID" },
+          name: { type: "string" },
+          ...evidenceFields,
+        },
+        required: ["id", "name"],
+      },
+    },
+    links: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          source: { type: "string" },
+          target: { type: "string" },
+          value: { type: "number", minimum: 0, description: "千円単位の金額" },
+          ...evidenceFields,
+        },
+        required: ["source", "target", "value"],
+      },
+    },
+    explanation: { type: "string" },
+  },
+  required: ["nodes", "links", "explanation"],
+};
+
+const GEMINI_TYPES: Record<JsonSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+export const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: GEMINI_TYPES[schema.type],
+  description: schema.description,
+  minimum: schema.minimum,
+  maximum: schema.maximum,
+  required: schema.required,
+  items: schema.items && toGeminiSchema(schema.items),
+  properties: schema.properties &&
+    Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+});
+
+export interface SchemaIssue {
+  // e.g. "links[3].value"
+  path: string;
+  message: string;
+}
+
+export interface StructuredBudget {
+  data: SankeyData;
+  explanation: string;
+}
+
+export type BudgetParseResult =
+  | { ok: true; value: StructuredBudget; issues: [] }
+  // `value` holds whatever could be salvaged so a partially valid answer can still be shown
+  | { ok: false; stage: "extract" | "json" | "schema"; value: StructuredBudget | null; issues: SchemaIssue[] };
+
+const describe = (value: unknown) => (typeof value === "string" ? `"${value}"` : JSON.stringify(value));
+
+const checkAgainst = (schema: JsonSchema, value: unknown, path: string, issues: SchemaIssue[]) => {
+  const at = path || "(ルート)";
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ path: at, message: `オブジェクトである必要があります（実際: ${describe(value)}）。` });
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined || record[key] === null) {
+          issues.push({ path: path ? `${path}.${key}` : key, message: "必須項目がありません。" });
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        if (record[key] !== undefined && record[key] !== null) checkAgainst(child, record[key], path ? `${path}.${key}` : key, issues);
+      });
+      return;
+    }
+    case "array":
+      if (!Array.isArray(value)) {
+        issues.push({ path: at, message: `配列である必要があります（実際: ${describe(value)}）。` });
+        return;
+      }
+      value.forEach((item, idx) => checkAgainst(schema.items!, item, `${path}[${idx}]`, issues));
+      return;
+    case "string":
+      if (typeof value !== "string" || value.trim() === "") {
+        issues.push({ path: at, message: `空でない文字列である必要があります（実際: ${describe(value)}）。` });
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({ path: at, message: `数値である必要があります（実際: ${describe(value)}）。単位やカンマを含めないでください。` });
+        return;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path: at, message: `${schema.minimum} 以上である必要があります（実際: ${value}）。` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ path: at, message: `${schema.maximum} 以下である必要があります（実際: ${value}）。` });
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        issues.push({ path: at, message: `true または false である必要があります（実際: ${describe(value)}）。` });
+      }
+      return;
+  }
+};
+
+export const validateAgainstSchema = (value: unknown, schema: JsonSchema = BUDGET_JSON_SCHEMA): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  checkAgainst(schema, value, "", issues);
+  return issues;
+};
+
+/**
+ * Finds the first top-level {...} in free text that parses, skipping braces
+ * inside JSON strings and never descending into a block that failed to parse.
+ * Prefers the contents of a ```json fence. If no block parses, the first
+ * balanced one is returned so the caller can report why.
+ */
+export const extractJsonObject = (text: string): string | null => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidates = fenced ? [fenced[1], text] : [text];
+  let firstBalanced: string | null = null;
+  for (const candidate of candidates) {
+    let start = candidate.indexOf("{");
+    while (start !== -1) {
+      let depth = 0;
+      let inString = false;
+      let escaped = false;
+      let end = -1;
+      for (let i = start; i < candidate.length && end === -1; i++) {
+        const ch = candidate[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === "\\") escaped = true;
+          else if (ch === "\"") inString = false;
+          continue;
+        }
+        if (ch === "\"") inString = true;
+        else if (ch === "{") depth++;
+        else if (ch === "}" && --depth === 0) end = i;
+      }
+      // Unclosed block: the answer was cut off, so nothing after it is usable either
+      if (end === -1) break;
+      const slice = candidate.slice(start, end + 1);
+      try {
+        JSON.parse(slice);
+        return slice;
+      } catch (e) {
+        firstBalanced = firstBalanced ?? slice;
+      }
+      start = candidate.indexOf("{", end + 1);
+    }
+  }
+  return firstBalanced;
+};
+
+// Best-effort conversion of "12,000千円"-style strings; the schema issue is still reported
+const salvageNumber = (value: unknown) =>
+  typeof value === "number" ? value : Number(String(value).replace(/[^0-9.\-]/g, ""));
+
+// Keeps only well-formed evidence entries; a bare string is read as a URL or document title
+const salvageEvidence = (value: unknown): Evidence[] | undefined => {
+  const entries = (Array.isArray(value) ? value : value ? [value] : [])
+    .map((e: any) => (typeof e === "string" ? (/^https?:\/\//.test(e) ? { uri: e } : { title: e }) : e))
+    .filter((e: any) => e && typeof e === "object" && (e.uri || e.title || e.quote));
+  return entries.length > 0 ? entries : undefined;
+};
+
+const salvageProvenance = (item: any) => ({
+  evidence: salvageEvidence(item.evidence ?? item.sourceRef),
+  estimated: item.estimated === true || undefined,
+});
+
+const salvage = (parsed: any): StructuredBudget => ({
+  data: {
+    nodes: (Array.isArray(parsed.nodes) ? parsed.nodes : [])
+      .filter((n: any) => n && typeof n.id === "string")
+      .map((n: any) => ({ ...n, name: typeof n.name === "string" ? n.name : n.id, ...salvageProvenance(n) })),
+    links: (Array.isArray(parsed.links) ? parsed.links : [])
+      .filter((l: any) => l && typeof l.source === "string" && typeof l.target === "string")
+      .map((l: any) => ({ ...l, value: salvageNumber(l.value), ...salvageProvenance(l) })),
+  },
+  explanation: typeof parsed.explanation === "string" ? parsed.explanation : "",
+});
+
+export const parseBudgetJson = (text: string): BudgetParseResult => {
+  const json = extractJsonObject(text);
+  if (!json) {
+    const looksTruncated = text.includes("{");
+    return {
+      ok: false,
+      stage: "extract",
+      value: null,
+      issues: [{
+        path: "(ルート)",
+        message: looksTruncated
+          ? "JSONオブジェクトが閉じていないか、構文が壊れています。"
+          : "回答にJSONオブジェクトが含まれていません。",
+      }],
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e: any) {
+    return { ok: false, stage: "json", value: null, issues: [{ path: "(ルート)", message: `JSONとして解析できません（${e.message}）。` }] };
+  }
+
+  const issues = validateAgainstSchema(parsed);
+  if (typeof parsed !== "object" || parsed === null) return { ok: false, stage: "schema", value: null, issues };
+  const value = salvage(parsed);
+  return issues.length === 0 ? { ok: true, value, issues: [] } : { ok: false, stage: "schema", value, issues };
+};
+
+export const formatSchemaIssue = (issue: SchemaIssue) => `${issue.path}: ${issue.message}`;
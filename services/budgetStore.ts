@@ -0,0 +1,160 @@
+import { BudgetCache, CachedBudget } from '../types';
+import { clearLegacyCache, readLegacyCache } from './budgetCache';
+import { domainOf } from './budgetDomains';
+
+const DB_NAME = 'tokyo_23_budget';
+const DB_VERSION = 1;
+const BUDGET_STORE = 'budgets';
+
+// Stored records carry their cache key so one ward/year/domain is one row
+interface BudgetRecord extends CachedBudget {
+  key: string;
+}
+
+export interface StoredRecordInfo {
+  key: string;
+  city: CachedBudget['city'];
+  fiscalYear: CachedBudget['fiscalYear'];
+  domain: string;
+  timestamp: number;
+  bytes: number;
+  attempts: number;
+}
+
+export interface StorageUsage {
+  records: StoredRecordInfo[];
+  totalBytes: number;
+  // From navigator.storage.estimate(); covers the whole origin, not just this store
+  originUsage?: number;
+  originQuota?: number;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Each case upgrades from the previous version, so a browser that skipped
+ * several releases runs every step in order.
+ */
+const upgrade = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(BUDGET_STORE, { keyPath: 'key' });
+    store.createIndex('city', 'city');
+    store.createIndex('fiscalYear', 'fiscalYear');
+    // Carry over the single localStorage blob the app used before
+    Object.entries(readLegacyCache()).forEach(([key, budget]) => {
+      if (budget) tx.objectStore(BUDGET_STORE).put({ ...budget, key });
+    });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let migratedLegacy = false;
+      request.onupgradeneeded = (event) => {
+        migratedLegacy = event.oldVersion < 1;
+        upgrade(request.result, request.transaction!, event.oldVersion);
+      };
+      request.onsuccess = () => {
+        if (migratedLegacy) clearLegacyCache();
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const loadAllBudgets = async (): Promise<BudgetCache> => {
+  const db = await openDb();
+  const records = await promisify<BudgetRecord[]>(db.transaction(BUDGET_STORE).objectStore(BUDGET_STORE).getAll());
+  const cache: BudgetCache = {};
+  records.forEach(({ key, ...budget }) => { cache[key] = budget; });
+  return cache;
+};
+
+/** Applies the difference between two cache snapshots as row puts and deletes. */
+export const persistCacheChanges = async (prev: BudgetCache, next: BudgetCache) => {
+  const changed = Object.entries(next).filter(([key, budget]) => budget && prev[key] !== budget);
+  const removed = Object.keys(prev).filter(key => !next[key]);
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDb();
+  const tx = db.transaction(BUDGET_STORE, 'readwrite');
+  const store = tx.objectStore(BUDGET_STORE);
+  changed.forEach(([key, budget]) => store.put({ ...budget, key }));
+  removed.forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
+
+// Earlier versions keep their own transcripts, so a refreshed ward carries several
+const allAttempts = (budget: CachedBudget) =>
+  [budget, ...(budget.versions || [])].flatMap(entry => entry.attempts || []);
+
+export const getStorageUsage = async (cache: BudgetCache): Promise<StorageUsage> => {
+  // Serialised length is a close enough proxy for what IndexedDB keeps per row
+  const records: StoredRecordInfo[] = Object.entries(cache)
+    .filter((entry): entry is [string, CachedBudget] => !!entry[1])
+    .map(([key, budget]) => ({
+      key,
+      city: budget.city,
+      fiscalYear: budget.fiscalYear,
+      domain: domainOf(budget),
+      timestamp: budget.timestamp,
+      bytes: new Blob([JSON.stringify(budget)]).size,
+      attempts: allAttempts(budget).length,
+    }))
+    .sort((a, b) => b.bytes - a.bytes);
+
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : undefined;
+  return {
+    records,
+    totalBytes: records.reduce((sum, r) => sum + r.bytes, 0),
+    originUsage: estimate?.usage,
+    originQuota: estimate?.quota,
+  };
+};
+
+export type PruneMode = 'transcripts' | 'olderThan';
+
+/**
+ * Returns a pruned copy of the cache; the caller persists it like any other
+ * change. 'transcripts' keeps only each attempt's violations, in the current
+ * entry and in every earlier version.
+ */
+export const pruneCache = (cache: BudgetCache, mode: PruneMode, olderThanDays = 365): BudgetCache => {
+  const next: BudgetCache = {};
+  const cutoff = Date.now() - olderThanDays * 24 * 60 * 60 * 1000;
+  Object.entries(cache).forEach(([key, budget]) => {
+    if (!budget) return;
+    if (mode === 'olderThan') {
+      if (budget.timestamp >= cutoff) next[key] = budget;
+      return;
+    }
+    if (!allAttempts(budget).some(a => a.prompt || a.response)) {
+      next[key] = budget;
+      return;
+    }
+    const strip = <T extends Pick<CachedBudget, 'attempts'>>(entry: T): T =>
+      entry.attempts ? { ...entry, attempts: entry.attempts.map(a => ({ ...a, prompt: '', response: '' })) } : entry;
+    next[key] = { ...strip(budget), versions: budget.versions?.map(strip) };
+  });
+  return next;
+};
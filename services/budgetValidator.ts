@@ -0,0 +1,254 @@
+import { SankeyData, SankeyLink, SankeyNode } from '../types';
+import { BUDGET_LAYERS, LAYER_LABELS, getLayer, layerIndex } from './budgetLayers';
+
+export type FindingKind =
+  | 'unbalanced_node'
+  | 'layer_skip'
+  | 'backward_link'
+  | 'invalid_prefix'
+  | 'invalid_value'
+  | 'zero_value'
+  | 'duplicate_name'
+  | 'dangling_link'
+  | 'dropped_cycle'
+  | 'missing_layer'
+  | 'total_mismatch';
+
+export type FindingSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationFinding {
+  kind: FindingKind;
+  severity: FindingSeverity;
+  message: string;
+  nodeIds?: string[];
+  link?: Pick<SankeyLink, 'source' | 'target'>;
+}
+
+export type TrustLevel = 'high' | 'medium' | 'low';
+
+export interface ValidationReport {
+  findings: ValidationFinding[];
+  trust: TrustLevel;
+  revenueTotal: number;
+  itemTotal: number;
+  statedTotals: number[];
+}
+
+export const FINDING_LABELS: Record<FindingKind, string> = {
+  unbalanced_node: '収支不一致',
+  layer_skip: '階層の飛び越し',
+  backward_link: '逆方向のリンク',
+  invalid_prefix: 'ID接頭辞の誤り',
+  invalid_value: '不正な金額',
+  zero_value: '金額ゼロ',
+  duplicate_name: '名称の重複',
+  dangling_link: '存在しないノードへのリンク',
+  dropped_cycle: '循環により除外',
+  missing_layer: '階層の欠落',
+  total_mismatch: '総額の不一致',
+};
+
+// Rounding in the source documents (百万円 → 千円) makes exact equality too strict
+const BALANCE_TOLERANCE = 0.005;
+const TOTAL_TOLERANCE = 0.02;
+
+const isBalanced = (a: number, b: number, tolerance: number) =>
+  Math.abs(a - b) <= Math.max(1, Math.max(Math.abs(a), Math.abs(b)) * tolerance);
+
+/**
+ * Drops links that would close a cycle, in input order, exactly as the Sankey
+ * layout needs them. Returned separately so the dropped ones can be reported.
+ */
+export const filterAcyclicLinks = (nodes: SankeyNode[], links: SankeyLink[]) => {
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const adj = new Map<string, string[]>();
+  nodes.forEach(n => adj.set(n.id, []));
+
+  const wouldCreateCycle = (source: string, target: string): boolean => {
+    const visited = new Set<string>();
+    const stack = [target];
+    while (stack.length > 0) {
+      const curr = stack.pop()!;
+      if (curr === source) return true;
+      if (!visited.has(curr)) {
+        visited.add(curr);
+        const neighbors = adj.get(curr) || [];
+        stack.push(...neighbors);
+      }
+    }
+    return false;
+  };
+
+  const valid: SankeyLink[] = [];
+  const dropped: SankeyLink[] = [];
+  links.forEach(link => {
+    if (!nodeIds.has(link.source) || !nodeIds.has(link.target)) return;
+    if (link.source === link.target || wouldCreateCycle(link.source, link.target)) {
+      dropped.push(link);
+      return;
+    }
+    valid.push(link);
+    adj.get(link.source)?.push(link.target);
+  });
+  return { valid, dropped };
+};
+
+const UNIT_MULTIPLIERS: [RegExp, number][] = [
+  [/^億円/, 100000],
+  [/^百万円/, 1000],
+  [/^万円/, 10],
+  [/^千円/, 1],
+  [/^円/, 0.001],
+];
+
+/**
+ * Pulls amounts stated as a total (総額・合計・総計) out of the explanation,
+ * converted to 千円. "約12.3億円" and "1,234,567千円" both work.
+ */
+export const extractStatedTotals = (explanation: string): number[] => {
+  const totals: number[] = [];
+  const pattern = /(?:総額|合計|総計|予算額)[^0-9０-９。\n]{0,12}([0-9０-９][0-9０-９,，.．]*)\s*(億円|百万円|万円|千円|円)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(explanation)) !== null) {
+    const digits = match[1]
+      .replace(/[０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+      .replace(/[,，]/g, '')
+      .replace('．', '.');
+    const amount = parseFloat(digits);
+    const multiplier = UNIT_MULTIPLIERS.find(([unit]) => unit.test(match![2]))?.[1];
+    if (!isNaN(amount) && multiplier) totals.push(amount * multiplier);
+  }
+  return totals;
+};
+
+export const validateBudget = (data: SankeyData, explanation = ''): ValidationReport => {
+  const findings: ValidationFinding[] = [];
+  const nodeById = new Map(data.nodes.map(n => [n.id, n]));
+  const nameOf = (id: string) => nodeById.get(id)?.name || id;
+
+  // Node ids and names
+  const namesByLayer = new Map<string, string[]>();
+  data.nodes.forEach(node => {
+    if (!getLayer(node.id)) {
+      findings.push({
+        kind: 'invalid_prefix',
+        severity: 'warning',
+        message: `「${node.name}」のID "${node.id}" が rev_ / exp_ / cat_ / item_ のいずれでも始まっていません。`,
+        nodeIds: [node.id],
+      });
+    }
+    const key = `${getLayer(node.id) ?? '?'}:${(node.name || '').trim()}`;
+    namesByLayer.set(key, [...(namesByLayer.get(key) || []), node.id]);
+  });
+  namesByLayer.forEach((ids, key) => {
+    if (ids.length < 2) return;
+    findings.push({
+      kind: 'duplicate_name',
+      severity: 'warning',
+      message: `同じ階層に「${key.split(':').slice(1).join(':')}」が ${ids.length} 件あります（${ids.join(', ')}）。`,
+      nodeIds: ids,
+    });
+  });
+
+  // Links: endpoints, values and layer order
+  const inflow = new Map<string, number>();
+  const outflow = new Map<string, number>();
+  data.links.forEach(link => {
+    const ref = { source: link.source, target: link.target };
+    const label = `${nameOf(link.source)} → ${nameOf(link.target)}`;
+    if (!nodeById.has(link.source) || !nodeById.has(link.target)) {
+      findings.push({ kind: 'dangling_link', severity: 'error', message: `${label}: 定義されていないノードを参照しています。`, link: ref });
+      return;
+    }
+    if (typeof link.value !== 'number' || !Number.isFinite(link.value)) {
+      findings.push({ kind: 'invalid_value', severity: 'error', message: `${label}: 金額 "${link.value}" が数値ではありません。`, link: ref });
+      return;
+    }
+    if (link.value < 0) {
+      findings.push({ kind: 'invalid_value', severity: 'error', message: `${label}: 金額が負の値です（${link.value}）。`, link: ref });
+    } else if (link.value === 0) {
+      findings.push({ kind: 'zero_value', severity: 'info', message: `${label}: 金額が0です。`, link: ref });
+    }
+    outflow.set(link.source, (outflow.get(link.source) || 0) + link.value);
+    inflow.set(link.target, (inflow.get(link.target) || 0) + link.value);
+
+    const from = layerIndex(link.source);
+    const to = layerIndex(link.target);
+    if (from < 0 || to < 0) return;
+    if (to <= from) {
+      findings.push({
+        kind: 'backward_link',
+        severity: 'error',
+        message: `${label}: ${LAYER_LABELS[BUDGET_LAYERS[from]]}から${LAYER_LABELS[BUDGET_LAYERS[to]]}へ逆向き・同階層のリンクです。`,
+        link: ref,
+      });
+    } else if (to - from > 1) {
+      findings.push({
+        kind: 'layer_skip',
+        severity: 'warning',
+        message: `${label}: ${LAYER_LABELS[BUDGET_LAYERS[from]]}から${LAYER_LABELS[BUDGET_LAYERS[to]]}へ階層を飛び越しています。`,
+        link: ref,
+      });
+    }
+  });
+
+  const { dropped } = filterAcyclicLinks(data.nodes, data.links);
+  dropped.forEach(link => {
+    findings.push({
+      kind: 'dropped_cycle',
+      severity: 'error',
+      message: `${nameOf(link.source)} → ${nameOf(link.target)}: 循環参照になるため図から除外されています。`,
+      link: { source: link.source, target: link.target },
+    });
+  });
+
+  // Flow conservation on every node that both receives and passes money on
+  data.nodes.forEach(node => {
+    const inValue = inflow.get(node.id) || 0;
+    const outValue = outflow.get(node.id) || 0;
+    if (inValue > 0 && outValue > 0 && !isBalanced(inValue, outValue, BALANCE_TOLERANCE)) {
+      findings.push({
+        kind: 'unbalanced_node',
+        severity: 'warning',
+        message: `「${node.name}」: 流入 ${inValue.toLocaleString()} 千円に対し流出 ${outValue.toLocaleString()} 千円（差 ${(inValue - outValue).toLocaleString()} 千円）。`,
+        nodeIds: [node.id],
+      });
+    }
+  });
+
+  const presentLayers = new Set(data.nodes.map(n => getLayer(n.id)));
+  if (data.nodes.length > 0) {
+    BUDGET_LAYERS.filter(layer => !presentLayers.has(layer)).forEach(layer => {
+      findings.push({
+        kind: 'missing_layer',
+        severity: 'warning',
+        message: `${LAYER_LABELS[layer]}（${layer}_）のノードがありません。`,
+      });
+    });
+  }
+
+  // Totals
+  const revenueTotal = data.links.filter(l => getLayer(l.source) === 'rev').reduce((sum, l) => sum + (Number(l.value) || 0), 0);
+  const itemTotal = data.links.filter(l => getLayer(l.target) === 'item').reduce((sum, l) => sum + (Number(l.value) || 0), 0);
+  if (revenueTotal > 0 && itemTotal > 0 && !isBalanced(revenueTotal, itemTotal, BALANCE_TOLERANCE)) {
+    findings.push({
+      kind: 'unbalanced_node',
+      severity: 'warning',
+      message: `財源の合計 ${revenueTotal.toLocaleString()} 千円と細目の合計 ${itemTotal.toLocaleString()} 千円が一致しません。`,
+    });
+  }
+  const statedTotals = extractStatedTotals(explanation);
+  if (revenueTotal > 0 && statedTotals.length > 0 && !statedTotals.some(t => isBalanced(t, revenueTotal, TOTAL_TOLERANCE))) {
+    findings.push({
+      kind: 'total_mismatch',
+      severity: 'warning',
+      message: `解説に記載の総額（${statedTotals.map(t => `${Math.round(t).toLocaleString()} 千円`).join(' / ')}）がデータの財源合計 ${revenueTotal.toLocaleString()} 千円と一致しません。`,
+    });
+  }
+
+  const errors = findings.filter(f => f.severity === 'error').length;
+  const warnings = findings.filter(f => f.severity === 'warning').length;
+  const trust: TrustLevel = data.links.length === 0 || errors > 0 || warnings > 5 ? 'low' : warnings > 0 ? 'medium' : 'high';
+
+  return { findings, trust, revenueTotal, itemTotal, statedTotals };
+};
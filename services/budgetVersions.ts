@@ -0,0 +1,77 @@
+import { BudgetResponse, BudgetVersion, CachedBudget, VersionOrigin } from '../types';
+
+export type VersionStamp = Pick<CachedBudget, 'versionId' | 'timestamp' | 'author' | 'origin'>;
+
+export const ORIGIN_LABELS: Record<VersionOrigin['kind'], string> = {
+  ai: 'AI取得',
+  merge: 'AI更新の取り込み',
+  csv: 'CSVインポート',
+  manual: '手動修正',
+  restore: '復元',
+};
+
+/** Identity, time and cause of a new version; spread into the entry being stored. */
+export const stampVersion = (origin: VersionOrigin, author: string): VersionStamp => ({
+  versionId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp: Date.now(),
+  author: author.trim(),
+  origin,
+});
+
+export const aiOrigin = (result: BudgetResponse, kind: 'ai' | 'merge' = 'ai'): VersionOrigin => ({
+  kind,
+  model: result.model || '不明',
+  promptVersion: result.promptVersion,
+  promptHash: result.promptHash || '不明',
+});
+
+// Entries from before versioning fall back to their timestamp, which is unique per key in practice
+export const versionIdOf = (version: BudgetVersion) => version.versionId || `t${version.timestamp}`;
+
+/** Every version of an entry, newest first; the first one is the current data. */
+export const listVersions = (budget: CachedBudget): BudgetVersion[] => {
+  const { versions = [], ...current } = budget;
+  return [current, ...[...versions].reverse()];
+};
+
+export const describeOrigin = (origin: VersionOrigin | undefined, versions: BudgetVersion[] = []): string => {
+  if (!origin) return '記録なし（履歴機能の導入前）';
+  switch (origin.kind) {
+    case 'ai':
+    case 'merge':
+      return `${ORIGIN_LABELS[origin.kind]}（モデル ${origin.model}・プロンプト ${origin.promptVersion ? `v${origin.promptVersion} ` : ''}#${origin.promptHash}）`;
+    case 'csv':
+      return `${ORIGIN_LABELS.csv}（${origin.fileName}）`;
+    case 'restore': {
+      const source = versions.find(v => versionIdOf(v) === origin.versionId);
+      return `${ORIGIN_LABELS.restore}（${source ? new Date(source.timestamp).toLocaleString() : origin.versionId} の版から）`;
+    }
+    default:
+      return ORIGIN_LABELS[origin.kind];
+  }
+};
+
+/** A copy of an old version to store as the newest one; the history itself is untouched. */
+export const restoreVersion = (version: BudgetVersion, author: string): CachedBudget => ({
+  ...version,
+  ...stampVersion({ kind: 'restore', versionId: versionIdOf(version) }, author),
+});
+
+/**
+ * One history out of two copies of the same entry, e.g. a bundle import over
+ * local data. The later current version stays current; every other version
+ * from either side is kept once, oldest first.
+ */
+export const mergeHistories = (a: CachedBudget, b: CachedBudget): CachedBudget => {
+  const [older, newer] = a.timestamp > b.timestamp ? [b, a] : [a, b];
+  const { versions: newerVersions = [], ...current } = newer;
+  const { versions: olderVersions = [], ...replaced } = older;
+  const currentId = versionIdOf(current);
+  const byId = new Map<string, BudgetVersion>();
+  [...olderVersions, replaced, ...newerVersions].forEach(version => {
+    const id = versionIdOf(version);
+    if (id !== currentId && !byId.has(id)) byId.set(id, version);
+  });
+  const versions = Array.from(byId.values()).sort((x, y) => x.timestamp - y.timestamp);
+  return versions.length > 0 ? { ...current, versions } : current;
+};
@@ -0,0 +1,103 @@
+import { BudgetCache, City, FiscalYear } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { budgetKey } from './budgetCache';
+import { LAYER_LABELS, getLayer, layerIndex } from './budgetLayers';
+import { buildRevenueComparison, categoryNames } from './budgetComparison';
+import { NodeClassifier } from './taxonomy';
+import { Cell, Sheet } from './xlsx';
+
+const header = (labels: string[]): Cell[] => labels.map(value => ({ value, style: 'header' }));
+const amount = (value: number): Cell => ({ value, style: 'amount' });
+const layerLabel = (id: string) => {
+  const layer = getLayer(id);
+  return layer ? LAYER_LABELS[layer] : '';
+};
+
+/** Ward × revenue source, the same figures the 23区比較 chart draws. */
+const summarySheet = (cache: BudgetCache, cities: City[], fiscalYear: FiscalYear, domain: string, classify: NodeClassifier): Sheet => {
+  const rows = buildRevenueComparison(cache, cities, fiscalYear, domain, classify).filter(r => r.total > 0);
+  const categories = categoryNames(rows);
+  const columnTotals = categories.map(name =>
+    rows.reduce((sum, r) => sum + (r.categories.find(c => c.name === name)?.value || 0), 0));
+
+  return {
+    name: '23区比較',
+    freezeHeader: true,
+    columnWidths: [12, ...categories.map(() => 16), 16],
+    rows: [
+      header(['区', ...categories, '合計']),
+      ...rows.map(r => [
+        r.city,
+        ...categories.map(name => {
+          const value = r.categories.find(c => c.name === name)?.value;
+          return value === undefined ? null : amount(value);
+        }),
+        amount(r.total),
+      ]),
+      [
+        { value: '合計', style: 'header' },
+        ...columnTotals.map(value => ({ value, style: 'total' as const })),
+        { value: rows.reduce((sum, r) => sum + r.total, 0), style: 'total' },
+      ],
+    ],
+  };
+};
+
+const wardSheet = (cache: BudgetCache, city: City, fiscalYear: FiscalYear, domain: string, classify: NodeClassifier): Sheet | null => {
+  const budget = cache[budgetKey(city, fiscalYear, domain)];
+  if (!budget || budget.data.links.length === 0) return null;
+  const nodeNameMap = new Map(budget.data.nodes.map(n => [n.id, n.name]));
+  return {
+    name: city,
+    freezeHeader: true,
+    columnWidths: [14, 28, 14, 28, 16, 10, 24, 24],
+    rows: [
+      header(['元階層', '元項目', '先階層', '先項目', '金額', '推定', '元分類', '先分類']),
+      // Read top to bottom in flow order: 財源 first, 具体的細目 last
+      ...[...budget.data.links].sort((a, b) => layerIndex(a.source) - layerIndex(b.source)).map(link => {
+        const sourceName = nodeNameMap.get(link.source) || link.source;
+        const targetName = nodeNameMap.get(link.target) || link.target;
+        return [
+          layerLabel(link.source),
+          sourceName,
+          layerLabel(link.target),
+          targetName,
+          amount(link.value),
+          link.estimated ? '推定' : '',
+          classify(link.source, sourceName) || '',
+          classify(link.target, targetName) || '',
+        ];
+      }),
+    ],
+  };
+};
+
+const sourcesSheet = (cache: BudgetCache, cities: City[], fiscalYear: FiscalYear, domain: string): Sheet => {
+  const rows: (Cell | string | number)[][] = [];
+  cities.forEach(city => {
+    const budget = cache[budgetKey(city, fiscalYear, domain)];
+    if (!budget) return;
+    const fetchedAt = new Date(budget.timestamp).toLocaleString();
+    rows.push([city, '解説', { value: budget.explanation, style: 'wrap' }, '', fetchedAt]);
+    budget.sources.forEach(source => rows.push([city, '参照資料', source.title, source.uri, fetchedAt]));
+  });
+  return {
+    name: '出典・解説',
+    freezeHeader: true,
+    columnWidths: [12, 10, 80, 50, 20],
+    rows: [header(['区', '種別', '内容', 'URL', '取得日時']), ...rows],
+  };
+};
+
+/**
+ * One workbook per fiscal year and domain: the comparison summary first, then
+ * a flow sheet per ward that has data, then sources and explanations.
+ */
+export const buildBudgetWorkbook = (cache: BudgetCache, cities: City[], fiscalYear: FiscalYear, domain: string, classify: NodeClassifier): Sheet[] => [
+  summarySheet(cache, cities, fiscalYear, domain, classify),
+  ...cities.map(city => wardSheet(cache, city, fiscalYear, domain, classify)).filter((s): s is Sheet => !!s),
+  sourcesSheet(cache, cities, fiscalYear, domain),
+];
+
+export const workbookFileName = (fiscalYear: FiscalYear, domainLabel: string) =>
+  `東京23区${domainLabel}予算_${FISCAL_YEAR_LABELS[fiscalYear]}_${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -0,0 +1,209 @@
+import { crc32 } from './zip';
+import { createImagePdf } from './pdf';
+import { fitText, textWidth } from './textFit';
+
+export interface ChartExportMeta {
+  title: string;
+  // e.g. "令和6年度 当初予算"
+  subtitle: string;
+  // 千円; shown beside the title when set
+  total?: number;
+  formatTotal?: (kYen: number) => string;
+  sources: { title: string; uri: string }[];
+  // Colour key for charts whose legend lives outside the SVG
+  legend?: { label: string; color: string }[];
+  notes?: string[];
+}
+
+export type PaperSize = 'A4' | 'A3';
+
+// Landscape, in PDF points
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 842, height: 595 },
+  A3: { width: 1191, height: 842 },
+};
+
+export const PNG_DPI_OPTIONS = [96, 150, 300];
+export const PDF_DPI = 200;
+
+export const EXPORT_DISCLAIMER =
+  '※本資料の数値は生成AIが公開資料から抽出したもので、正確性は保証されません。引用の際は必ず原資料をご確認ください。';
+
+// Rasterising in the browser bakes whichever of these is installed into the pixels
+const FONT_STACK = "'Hiragino Kaku Gothic ProN','Hiragino Sans','Yu Gothic','Meiryo','Noto Sans JP',sans-serif";
+const PADDING = 32;
+const MAX_SOURCES = 6;
+const CSS_PX_PER_PT = 96 / 72;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const chartSize = (chart: SVGSVGElement) => {
+  const box = chart.viewBox?.baseVal;
+  if (box && box.width > 0 && box.height > 0) return { width: box.width, height: box.height };
+  return { width: Number(chart.getAttribute('width')) || chart.clientWidth, height: Number(chart.getAttribute('height')) || chart.clientHeight };
+};
+
+interface ComposedPage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Lays the chart out on a white page with the title block above and the
+ * sources, notes and disclaimer below. With a fixed height (a paper size) the
+ * chart is scaled to fit; otherwise the page grows to the chart's own size.
+ */
+export const composeChartPage = (chart: SVGSVGElement, meta: ChartExportMeta, pageWidth?: number, pageHeight?: number): ComposedPage => {
+  const natural = chartSize(chart);
+  const width = pageWidth || natural.width + PADDING * 2;
+  const innerWidth = width - PADDING * 2;
+  const dateLine = `作成日: ${new Date().toLocaleDateString('ja-JP')}`;
+
+  const header: string[] = [];
+  header.push(`<text x="${PADDING}" y="${PADDING + 22}" font-size="22" font-weight="bold" fill="#0f172a">${escapeXml(fitText(meta.title, innerWidth * 0.7, 22))}</text>`);
+  header.push(`<text x="${PADDING}" y="${PADDING + 44}" font-size="13" fill="#475569">${escapeXml(meta.subtitle)}</text>`);
+  if (meta.total !== undefined && meta.formatTotal) {
+    header.push(`<text x="${width - PADDING}" y="${PADDING + 14}" font-size="11" fill="#64748b" text-anchor="end">予算総額</text>`);
+    header.push(`<text x="${width - PADDING}" y="${PADDING + 40}" font-size="24" font-weight="bold" fill="#059669" text-anchor="end">${escapeXml(meta.formatTotal(meta.total))}</text>`);
+  }
+  let headerHeight = PADDING + 60;
+  if (meta.legend?.length) {
+    let x = PADDING;
+    let y = headerHeight + 4;
+    meta.legend.forEach(item => {
+      const itemWidth = 18 + textWidth(item.label, 11) + 16;
+      if (x + itemWidth > width - PADDING) {
+        x = PADDING;
+        y += 18;
+      }
+      header.push(`<rect x="${x}" y="${y - 9}" width="10" height="10" rx="5" fill="${item.color}"/>`);
+      header.push(`<text x="${x + 16}" y="${y}" font-size="11" fill="#475569">${escapeXml(item.label)}</text>`);
+      x += itemWidth;
+    });
+    headerHeight = y + 14;
+  }
+
+  const footerLines: { text: string; size: number; color: string; bold?: boolean }[] = [];
+  if (meta.sources.length > 0) {
+    footerLines.push({ text: '出典', size: 11, color: '#334155', bold: true });
+    meta.sources.slice(0, MAX_SOURCES).forEach(s =>
+      footerLines.push({ text: `・${s.title}${s.uri ? `（${s.uri}）` : ''}`, size: 10, color: '#475569' }));
+    if (meta.sources.length > MAX_SOURCES) {
+      footerLines.push({ text: `　ほか ${meta.sources.length - MAX_SOURCES} 件`, size: 10, color: '#475569' });
+    }
+  }
+  (meta.notes || []).forEach(note => footerLines.push({ text: note, size: 10, color: '#475569' }));
+  footerLines.push({ text: EXPORT_DISCLAIMER, size: 10, color: '#b45309', bold: true });
+  footerLines.push({ text: dateLine, size: 10, color: '#94a3b8' });
+  const footerHeight = footerLines.length * 16 + 16;
+
+  let chartWidth = innerWidth;
+  let chartHeight = natural.height * (innerWidth / natural.width);
+  const height = pageHeight || headerHeight + chartHeight + footerHeight + PADDING;
+  if (pageHeight) {
+    const available = pageHeight - headerHeight - footerHeight - PADDING;
+    const scale = Math.min(innerWidth / natural.width, available / natural.height);
+    chartWidth = natural.width * scale;
+    chartHeight = natural.height * scale;
+  }
+
+  const clone = chart.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('x', String(PADDING + (innerWidth - chartWidth) / 2));
+  clone.setAttribute('y', String(headerHeight));
+  clone.setAttribute('width', String(chartWidth));
+  clone.setAttribute('height', String(chartHeight));
+  clone.setAttribute('viewBox', `0 0 ${natural.width} ${natural.height}`);
+  clone.removeAttribute('class');
+
+  let footerY = headerHeight + chartHeight + 16;
+  const footer = footerLines.map(line => {
+    footerY += 16;
+    return `<text x="${PADDING}" y="${footerY}" font-size="${line.size}" fill="${line.color}"${line.bold ? ' font-weight="bold"' : ''}>${escapeXml(fitText(line.text, innerWidth, line.size))}</text>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeXml(FONT_STACK)}">`
+    + `<rect width="${width}" height="${height}" fill="#ffffff"/>`
+    + header.join('')
+    + new XMLSerializer().serializeToString(clone)
+    + `<line x1="${PADDING}" x2="${width - PADDING}" y1="${headerHeight + chartHeight + 12}" y2="${headerHeight + chartHeight + 12}" stroke="#e2e8f0"/>`
+    + footer.join('')
+    + '</svg>';
+  return { svg, width, height };
+};
+
+const rasterize = (page: ComposedPage, scale: number): Promise<HTMLCanvasElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([page.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(page.width * scale);
+      canvas.height = Math.round(page.height * scale);
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('グラフを画像に変換できませんでした。'));
+    };
+    image.src = url;
+  });
+
+const canvasBytes = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('画像の書き出しに失敗しました。'));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, type, quality);
+  });
+
+/** Inserts a pHYs chunk after IHDR so image editors and Word pick up the DPI. */
+const withPngDpi = (png: Uint8Array, dpi: number) => {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4);
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1;
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  // Signature (8) + IHDR (4 length + 4 type + 13 data + 4 crc)
+  const ihdrEnd = 33;
+  const out = new Uint8Array(png.length + chunk.length);
+  out.set(png.subarray(0, ihdrEnd), 0);
+  out.set(chunk, ihdrEnd);
+  out.set(png.subarray(ihdrEnd), ihdrEnd + chunk.length);
+  return out;
+};
+
+const download = (bytes: Uint8Array, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([bytes], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const exportChartPng = async (chart: SVGSVGElement, meta: ChartExportMeta, dpi: number, fileBaseName: string) => {
+  const page = composeChartPage(chart, meta);
+  const canvas = await rasterize(page, dpi / 96);
+  download(withPngDpi(await canvasBytes(canvas, 'image/png'), dpi), 'image/png', `${fileBaseName}.png`);
+};
+
+export const exportChartPdf = async (chart: SVGSVGElement, meta: ChartExportMeta, paper: PaperSize, fileBaseName: string) => {
+  const { width, height } = PAPER_SIZES[paper];
+  const page = composeChartPage(chart, meta, width * CSS_PX_PER_PT, height * CSS_PX_PER_PT);
+  const canvas = await rasterize(page, PDF_DPI / 96);
+  const jpeg = await canvasBytes(canvas, 'image/jpeg', 0.92);
+  download(createImagePdf(jpeg, canvas.width, canvas.height, width, height, meta.title), 'application/pdf', `${fileBaseName}_${paper}.pdf`);
+};
@@ -0,0 +1,41 @@
+import { BudgetResponse, City, FiscalYear } from "../types";
+import { ChatModel, extractBudget, FetchOptions } from "./budgetExtraction";
+import { FIXTURE_KINDS, getFixtureAnswers } from "../fixtures/budgetFixtures";
+import { NamedNode, TaxonomyOverrides } from "./taxonomy";
+import { BudgetDomain, DEFAULT_DOMAIN_ID } from "./budgetDomains";
+
+// Enough delay for loading states to be visible during demos
+const SIMULATED_LATENCY_MS = 400;
+
+// The canned graphs are all tourism budgets; other domains would only get mislabelled copies
+export const FIXTURE_DOMAINS = [DEFAULT_DOMAIN_ID];
+
+export const fetchFixtureBudget = async (
+  city: City,
+  fiscalYear: FiscalYear,
+  domain: BudgetDomain,
+  options: FetchOptions = {}
+): Promise<BudgetResponse> => {
+  if (!FIXTURE_DOMAINS.includes(domain.id)) {
+    throw new Error(`オフライン・フィクスチャには${domain.label}のデータがありません（観光のみ対応）。`);
+  }
+  if (FIXTURE_KINDS[city] === "quota") {
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+    throw new Error("Quota exceeded: 429");
+  }
+
+  const answers = getFixtureAnswers(city, fiscalYear);
+  const model: ChatModel = async (messages) => {
+    await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+    const turn = messages.filter(m => m.role === "assistant").length;
+    return { text: answers[Math.min(turn, answers.length - 1)], sources: [] };
+  };
+
+  return extractBudget(model, "fixtures", city, fiscalYear, domain, options);
+};
+
+// Fixtures carry no classification answers, so everything stays with the rules
+export const classifyFixtureNames = async (items: NamedNode[], domain: BudgetDomain): Promise<TaxonomyOverrides> => {
+  await new Promise(resolve => setTimeout(resolve, SIMULATED_LATENCY_MS));
+  return {};
+};
@@ -0,0 +1,65 @@
+import { BudgetResponse, City, FiscalYear } from "../types";
+import { ChatModel, extractBudget, FetchOptions } from "./budgetExtraction";
+import { BUDGET_JSON_SCHEMA } from "./budgetSchema";
+import { buildClassificationPrompt, NamedNode, parseClassificationReply, TaxonomyOverrides } from "./taxonomy";
+import { BudgetDomain } from "./budgetDomains";
+
+export interface OpenAICompatibleConfig {
+  // e.g. http://localhost:11434/v1 for Ollama, http://localhost:1234/v1 for LM Studio
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+const postChat = async (config: OpenAICompatibleConfig, body: object): Promise<string> => {
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model: config.model, ...body }),
+  });
+
+  if (response.status === 429) throw new Error("Quota exceeded: 429");
+  if (!response.ok) throw new Error(`Endpoint returned ${response.status}: ${await response.text()}`);
+
+  const json = await response.json();
+  return json.choices?.[0]?.message?.content || "";
+};
+
+export const fetchOpenAICompatibleBudget = async (
+  config: OpenAICompatibleConfig,
+  city: City,
+  fiscalYear: FiscalYear,
+  domain: BudgetDomain,
+  options: FetchOptions = {}
+): Promise<BudgetResponse> => {
+  if (!config.baseUrl || !config.model) throw new Error("Endpoint URL and model are required.");
+
+  const model: ChatModel = async (messages) => {
+    const text = await postChat(config, {
+      messages,
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      response_format: { type: "json_schema", json_schema: { name: "budget_sankey", schema: BUDGET_JSON_SCHEMA } },
+    });
+    // Local models have no search grounding, so there are never any sources
+    return { text, sources: [] };
+  };
+
+  return extractBudget(model, config.model, city, fiscalYear, domain, options);
+};
+
+export const classifyOpenAICompatibleNames = async (
+  config: OpenAICompatibleConfig,
+  items: NamedNode[],
+  domain: BudgetDomain
+): Promise<TaxonomyOverrides> => {
+  if (!config.baseUrl || !config.model) throw new Error("Endpoint URL and model are required.");
+
+  const text = await postChat(config, {
+    messages: [{ role: "user", content: buildClassificationPrompt(items, domain) }],
+    response_format: { type: "json_object" },
+  });
+  return parseClassificationReply(text, items, domain.id);
+};
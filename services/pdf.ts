@@ -0,0 +1,66 @@
+/**
+ * Writes a one-page PDF whose only content is a JPEG drawn edge to edge.
+ * Charts are rasterised first, so Japanese labels need no embedded font.
+ */
+export const createImagePdf = (
+  jpeg: Uint8Array,
+  pixelWidth: number,
+  pixelHeight: number,
+  pageWidthPt: number,
+  pageHeightPt: number,
+  title: string
+): Uint8Array => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+  };
+
+  // Non-ASCII metadata has to be UTF-16BE with a byte order mark
+  const utf16Hex = (text: string) =>
+    'FEFF' + Array.from(text).map(ch => {
+      const code = ch.codePointAt(0)!;
+      const units = code > 0xffff
+        ? [0xd800 + ((code - 0x10000) >> 10), 0xdc00 + ((code - 0x10000) & 0x3ff)]
+        : [code];
+      return units.map(u => u.toString(16).padStart(4, '0').toUpperCase()).join('');
+    }).join('');
+
+  const content = `q ${pageWidthPt} 0 0 ${pageHeightPt} 0 0 cm /Im0 Do Q`;
+
+  push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  beginObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+  beginObject(2);
+  push('<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n');
+  beginObject(3);
+  push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidthPt} ${pageHeightPt}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>\nendobj\n`);
+  beginObject(4);
+  push(`<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+  push(jpeg);
+  push('\nendstream\nendobj\n');
+  beginObject(5);
+  push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  beginObject(6);
+  push(`<< /Title <${utf16Hex(title)}> /Producer (Tokyo 23 Wards Budget Visualizer) >>\nendobj\n`);
+
+  const xrefOffset = length;
+  push(`xref\n0 7\n0000000000 65535 f \n${offsets.slice(1).map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`);
+  push(`trailer\n<< /Size 7 /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const out = new Uint8Array(length);
+  let pos = 0;
+  parts.forEach(p => {
+    out.set(p, pos);
+    pos += p.length;
+  });
+  return out;
+};
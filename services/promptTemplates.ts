@@ -0,0 +1,101 @@
+import { City, FiscalYear } from '../types';
+import { FISCAL_YEAR_LABELS } from '../constants';
+import { BudgetDomain, domainExamples } from './budgetDomains';
+
+/**
+ * One saved wording of the extraction prompt. Versions are never edited:
+ * changing the wording saves a new version, so any earlier extraction can be
+ * repeated with exactly the prompt it used.
+ */
+export interface PromptTemplate {
+  version: number;
+  label: string;
+  body: string;
+  createdAt: number;
+}
+
+export type PromptPlaceholder = 'ward' | 'fiscalYear' | 'scope' | 'expenseExamples' | 'categoryExamples' | 'itemExamples';
+
+export const PROMPT_PLACEHOLDERS: Record<PromptPlaceholder, string> = {
+  ward: '区名（例：世田谷区）',
+  fiscalYear: '年度（例：令和6年度）',
+  scope: '予算の範囲（例：観光関連予算）',
+  expenseExamples: '分野に応じた費目の例',
+  categoryExamples: '分野に応じた事業カテゴリーの例',
+  itemExamples: '分野に応じた具体的細目の例',
+};
+
+// The examples are optional: a template without them just gives the model no hints
+const REQUIRED_PLACEHOLDERS: PromptPlaceholder[] = ['ward', 'fiscalYear', 'scope'];
+
+const DEFAULT_BODY = `{{ward}}の{{fiscalYear}}当初予算（{{fiscalYear}}の補正予算を含む場合はその旨を明記）の「{{scope}}」について、公式資料を元に詳細に調査してください。
+他の年度の数値を混在させないでください。{{fiscalYear}}の資料が見つからない場合は、その旨をexplanationに記載してください。
+
+【最重要：単位の統一】
+全ての金額は必ず「千円（1,000円）」単位の数値で出力してください。
+資料に「億円」や「百万円」で記載されている場合は、以下の通り正確に換算してください：
+・1億円 → 100,000
+・1,000万円 → 10,000
+・100万円 → 1,000
+数値にカンマや単位（円、千円など）を含めず、純粋な「数値」としてJSONに格納してください。
+
+【構造の定義】
+以下の4層構造でサンキーダイアグラム用データを作成してください。循環参照は厳禁です。
+1. 【財源 (rev_*)】: 一般財源、国庫支出金、都支出金など
+2. 【費目 (exp_*)】: {{expenseExamples}}
+3. 【事業カテゴリー (cat_*)】: {{categoryExamples}}
+4. 【具体的細目 (item_*)】: 具体的事業名（例：{{itemExamples}}）
+
+フロー： [財源] -> [費目] -> [事業カテゴリー] -> [具体的細目]
+
+JSON出力形式（この形式のみを出力）：
+{
+  "nodes": [{"id": "prefix_id", "name": "名称", "confidence": 0〜1の数値, "estimated": 真偽値, "evidence": [{"uri": "資料URL", "title": "資料名", "page": "ページ", "quote": "該当箇所の抜粋"}]}, ...],
+  "links": [{"source": "source_id", "target": "target_id", "value": 数値, "confidence": 0〜1の数値, "estimated": 真偽値, "evidence": [...]}, ...],
+  "explanation": "予算の主な特徴と、単位換算の根拠を含む詳細解説（日本語）"
+}
+
+※もし特定の事業の金額が不明な場合は、合計から逆算するか、合理的な推定値を割り当て、その旨をexplanationに記載してください。
+※推定した値には "estimated": true を付けてください。confidence は資料に金額が明記されていれば 1 に近く、推定値ほど低くしてください。
+※特に具体的細目（item_*）とそこへのリンクには、根拠資料のURL・資料名・ページ・金額が記載された箇所の抜粋を evidence に記載してください。`;
+
+// Built in rather than stored, so version 1 is always there to fall back to. The
+// examples are placeholders, so a tourism prompt renders exactly as before domains existed
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 1,
+  label: '標準',
+  body: DEFAULT_BODY,
+  createdAt: 0,
+};
+
+export const allPromptTemplates = (saved: PromptTemplate[]): PromptTemplate[] =>
+  [DEFAULT_PROMPT_TEMPLATE, ...saved.filter(t => t.version !== DEFAULT_PROMPT_TEMPLATE.version)]
+    .sort((a, b) => a.version - b.version);
+
+export const findPromptTemplate = (saved: PromptTemplate[], version: number): PromptTemplate =>
+  allPromptTemplates(saved).find(t => t.version === version) || DEFAULT_PROMPT_TEMPLATE;
+
+export const createPromptVersion = (saved: PromptTemplate[], label: string, body: string): PromptTemplate => ({
+  version: Math.max(...allPromptTemplates(saved).map(t => t.version)) + 1,
+  label: label.trim() || '無題',
+  body,
+  createdAt: Date.now(),
+});
+
+/** Required placeholders a template leaves out; a prompt without {{ward}} asks about no ward at all. */
+export const missingPlaceholders = (body: string): PromptPlaceholder[] =>
+  REQUIRED_PLACEHOLDERS.filter(name => !body.includes(`{{${name}}}`));
+
+export const renderPrompt = (template: PromptTemplate, city: City, fiscalYear: FiscalYear, domain: BudgetDomain): string => {
+  const examples = domainExamples(domain);
+  const values: Record<PromptPlaceholder, string> = {
+    ward: city,
+    fiscalYear: FISCAL_YEAR_LABELS[fiscalYear],
+    scope: domain.scope,
+    expenseExamples: examples.expense,
+    categoryExamples: examples.category,
+    itemExamples: examples.item,
+  };
+  return template.body.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    name in values ? values[name as PromptPlaceholder] : match);
+};
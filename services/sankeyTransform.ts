@@ -0,0 +1,115 @@
+import { SankeyData, SankeyLink } from '../types';
+import { BudgetLayer, getLayer } from './budgetLayers';
+import { linkKey } from './budgetDiff';
+
+/**
+ * View-only reshaping of a budget graph for the Sankey chart. Nothing here
+ * touches the cached data; each function returns a new SankeyData.
+ */
+
+export const OTHER_NODE_NAME = 'その他';
+
+const adjacency = (links: SankeyLink[]) => {
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  links.forEach(l => {
+    children.set(l.source, [...(children.get(l.source) || []), l.target]);
+    parents.set(l.target, [...(parents.get(l.target) || []), l.source]);
+  });
+  return { parents, children };
+};
+
+const walk = (start: string, next: Map<string, string[]>) => {
+  const seen = new Set<string>();
+  const stack = [...(next.get(start) || [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(next.get(id) || []));
+  }
+  return seen;
+};
+
+export interface NodePath {
+  nodes: Set<string>;
+  // linkKey(source, target) of every link on the path
+  links: Set<string>;
+}
+
+/** Everything that feeds into the node and everything it funds, for highlighting. */
+export const connectedPath = (data: SankeyData, nodeId: string): NodePath => {
+  const { parents, children } = adjacency(data.links);
+  const upstream = walk(nodeId, parents);
+  const downstream = walk(nodeId, children);
+  const links = new Set<string>();
+  data.links.forEach(l => {
+    const isUpstream = upstream.has(l.source) && (upstream.has(l.target) || l.target === nodeId);
+    const isDownstream = downstream.has(l.target) && (downstream.has(l.source) || l.source === nodeId);
+    if (isUpstream || isDownstream) links.add(linkKey(l.source, l.target));
+  });
+  return { nodes: new Set([nodeId, ...upstream, ...downstream]), links };
+};
+
+/**
+ * Keeps the node, the chain of sources that fund it and everything below it.
+ * Upstream links keep their full value, so the focused node's parents can
+ * look larger than what flows on to it.
+ */
+export const focusOnNode = (data: SankeyData, nodeId: string): SankeyData => {
+  const path = connectedPath(data, nodeId);
+  return {
+    nodes: data.nodes.filter(n => path.nodes.has(n.id)),
+    links: data.links.filter(l => path.links.has(linkKey(l.source, l.target))),
+  };
+};
+
+/** Drops a layer that has nothing below it (normally 具体的細目), leaving its parents as the leaves. */
+export const collapseLayer = (data: SankeyData, layer: BudgetLayer): SankeyData => {
+  const removed = new Set(data.nodes.filter(n => getLayer(n.id) === layer).map(n => n.id));
+  return {
+    nodes: data.nodes.filter(n => !removed.has(n.id)),
+    links: data.links.filter(l => !removed.has(l.source) && !removed.has(l.target)),
+  };
+};
+
+/**
+ * Merges each node's outgoing flows into leaves that are below the given
+ * share of the total budget into one "その他" node per parent. Only leaves
+ * are merged, so no downstream flow loses its source.
+ */
+export const groupSmallFlows = (data: SankeyData, minSharePct: number): SankeyData => {
+  if (minSharePct <= 0) return data;
+  const targets = new Set(data.links.map(l => l.target));
+  const sources = new Set(data.links.map(l => l.source));
+  const total = data.links.filter(l => !targets.has(l.source)).reduce((sum, l) => sum + l.value, 0);
+  const threshold = (total * minSharePct) / 100;
+
+  const isSmallLeaf = (l: SankeyLink) => !sources.has(l.target) && l.value < threshold;
+  const smallByParent = new Map<string, SankeyLink[]>();
+  data.links.filter(isSmallLeaf).forEach(l => smallByParent.set(l.source, [...(smallByParent.get(l.source) || []), l]));
+
+  // A single small flow stays as it is; replacing it with "その他" would only hide its name
+  const grouped = new Map(Array.from(smallByParent.entries()).filter(([, links]) => links.length > 1));
+  if (grouped.size === 0) return data;
+
+  const mergedTargets = new Set<string>();
+  const links: SankeyLink[] = data.links.filter(l => !(grouped.has(l.source) && isSmallLeaf(l)));
+  const nodes = [...data.nodes];
+  grouped.forEach((small, parent) => {
+    const layer = getLayer(small[0].target) || 'item';
+    const otherId = `${layer}__other__${parent}`;
+    small.forEach(l => mergedTargets.add(l.target));
+    nodes.push({ id: otherId, name: `${OTHER_NODE_NAME}（${small.length}件）` });
+    links.push({
+      source: parent,
+      target: otherId,
+      value: small.reduce((sum, l) => sum + l.value, 0),
+      estimated: small.some(l => l.estimated) || undefined,
+    });
+  });
+
+  // A leaf with another, larger parent keeps its own node
+  const stillLinked = new Set(links.map(l => l.target));
+  return { nodes: nodes.filter(n => !mergedTargets.has(n.id) || stillLinked.has(n.id)), links };
+};
@@ -0,0 +1,61 @@
+import { DEFAULT_MAX_ATTEMPTS } from './budgetExtraction';
+import { BudgetProviderId } from './budgetProvider';
+import { OpenAICompatibleConfig } from './openAICompatibleService';
+import { DEFAULT_GEMINI_CONFIG, GeminiConfig } from './geminiService';
+import { PromptTemplate } from './promptTemplates';
+import { BudgetDomain } from './budgetDomains';
+
+const SETTINGS_KEY = 'tokyo_23_budget_settings_v1';
+
+export interface AppSettings {
+  provider: BudgetProviderId;
+  // Model calls per ward, including retries with validation feedback
+  maxAttempts: number;
+  openAICompatible: OpenAICompatibleConfig;
+  gemini: GeminiConfig;
+  // Sampling temperature for every provider; null leaves each model at its default
+  temperature: number | null;
+  // Saved prompt versions besides the built-in one, and the version fetches use
+  promptTemplates: PromptTemplate[];
+  promptVersion: number;
+  // Policy domains added here, beyond the built-in ones
+  customDomains: BudgetDomain[];
+  // Recorded on every version this browser saves, e.g. "観光課 データ担当"
+  authorLabel: string;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  maxAttempts: DEFAULT_MAX_ATTEMPTS,
+  openAICompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.1',
+    apiKey: '',
+  },
+  gemini: DEFAULT_GEMINI_CONFIG,
+  temperature: null,
+  promptTemplates: [],
+  promptVersion: 1,
+  customDomains: [],
+  authorLabel: '',
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return {
+      ...DEFAULT_SETTINGS,
+      ...parsed,
+      openAICompatible: { ...DEFAULT_SETTINGS.openAICompatible, ...parsed.openAICompatible },
+      gemini: { ...DEFAULT_SETTINGS.gemini, ...parsed.gemini },
+    };
+  } catch (e) {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
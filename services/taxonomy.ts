@@ -0,0 +1,236 @@
+import { BudgetCache } from '../types';
+import { BudgetLayer, getLayer, LAYER_LABELS } from './budgetLayers';
+import { BudgetDomain, DEFAULT_DOMAIN_ID, domainOf } from './budgetDomains';
+
+/**
+ * A vocabulary for the names the AI gives to revenue sources, 費目 and business
+ * categories, so "観光PR" in one ward and "シティプロモーション" in another
+ * land in the same column. Revenue sources and 費目 are the same for every
+ * domain; business categories differ, so each domain brings its own and
+ * custom domains get a generic set. 具体的細目 are too specific to map.
+ */
+export type TaxonomyLayer = Exclude<BudgetLayer, 'item'>;
+
+export const TAXONOMY_LAYERS: TaxonomyLayer[] = ['rev', 'exp', 'cat'];
+
+export interface TaxonomyCategory {
+  id: string;
+  layer: TaxonomyLayer;
+  label: string;
+  // Checked in list order, so more specific categories come first
+  keywords: string[];
+}
+
+const SHARED_CATEGORIES: TaxonomyCategory[] = [
+  { id: 'rev_national', layer: 'rev', label: '国庫支出金', keywords: ['国庫', '国補助', '国の補助', '国費'] },
+  { id: 'rev_metro', layer: 'rev', label: '都支出金', keywords: ['都支出金', '都補助', '都の補助', '東京都', '都費', '宿泊税'] },
+  { id: 'rev_fees', layer: 'rev', label: '使用料・手数料', keywords: ['使用料', '手数料', '利用料', '入場料'] },
+  { id: 'rev_bonds', layer: 'rev', label: '特別区債', keywords: ['区債', '起債'] },
+  { id: 'rev_funds', layer: 'rev', label: '基金・繰入金', keywords: ['基金', '繰入'] },
+  { id: 'rev_donations', layer: 'rev', label: '寄附金', keywords: ['寄附', '寄付', 'ふるさと納税', '協賛'] },
+  { id: 'rev_general', layer: 'rev', label: '一般財源', keywords: ['一般財源', '区税', '財政調整', '交付金', '譲与税', '地方消費税'] },
+  { id: 'rev_other', layer: 'rev', label: 'その他財源', keywords: [] },
+
+  { id: 'exp_general', layer: 'exp', label: '総務費', keywords: ['総務'] },
+  { id: 'exp_industry', layer: 'exp', label: '産業経済費', keywords: ['産業', '商工', '経済', '観光'] },
+  { id: 'exp_community', layer: 'exp', label: '地域振興費', keywords: ['地域振興', '区民', '文化', 'スポーツ', '生活'] },
+  { id: 'exp_urban', layer: 'exp', label: '都市整備費', keywords: ['都市', '土木', 'まちづくり', '公園', '建設'] },
+  { id: 'exp_education', layer: 'exp', label: '教育費', keywords: ['教育', '生涯学習'] },
+  { id: 'exp_environment', layer: 'exp', label: '環境清掃費', keywords: ['環境', '清掃'] },
+  { id: 'exp_welfare', layer: 'exp', label: '福祉・衛生費', keywords: ['福祉', '衛生', '保健', '民生'] },
+  { id: 'exp_other', layer: 'exp', label: 'その他費目', keywords: [] },
+];
+
+const PLANNING_CATEGORY: TaxonomyCategory = { id: 'cat_planning', layer: 'cat', label: '調査・計画策定', keywords: ['調査', '計画', '戦略', '分析', 'マーケティング', '統計'] };
+const OTHER_CATEGORY: TaxonomyCategory = { id: 'cat_other', layer: 'cat', label: 'その他事業', keywords: [] };
+
+// Business categories by domain id
+const DOMAIN_CATEGORIES: Record<string, TaxonomyCategory[]> = {
+  tourism: [
+    { id: 'cat_inbound', layer: 'cat', label: 'インバウンド・多言語対応', keywords: ['インバウンド', '外国人', '多言語', '訪日', '国際'] },
+    { id: 'cat_organizations', layer: 'cat', label: '観光協会・団体支援', keywords: ['観光協会', '協会', '団体', '負担金'] },
+    { id: 'cat_promotion', layer: 'cat', label: 'プロモーション・情報発信', keywords: ['プロモーション', 'pr', '広報', '情報発信', '宣伝', 'sns', 'ウェブ', 'web', 'パンフレット'] },
+    { id: 'cat_events', layer: 'cat', label: 'イベント・祭事', keywords: ['イベント', '祭', 'まつり', 'フェスティバル', '花火', '催事'] },
+    { id: 'cat_culture', layer: 'cat', label: '文化・歴史資源の活用', keywords: ['文化', '歴史', '史跡', '伝統', '博物館', '美術', 'アート'] },
+    { id: 'cat_reception', layer: 'cat', label: '観光案内・受入環境', keywords: ['案内', '受入', 'wi-fi', 'wifi', 'サイン', 'トイレ', 'ボランティア', 'ガイド', 'マップ'] },
+    PLANNING_CATEGORY,
+    { id: 'cat_commerce', layer: 'cat', label: '商店街・地域産業連携', keywords: ['商店街', '商業', '物産', 'ものづくり', '産業'] },
+    { id: 'cat_facilities', layer: 'cat', label: '観光施設の運営・整備', keywords: ['施設', '整備', '運営', '改修', '指定管理', '会館', 'センター'] },
+    OTHER_CATEGORY,
+  ],
+  culture: [
+    { id: 'cat_heritage', layer: 'cat', label: '文化財・伝統文化', keywords: ['文化財', '史跡', '伝統', '郷土', '歴史', '保存'] },
+    { id: 'cat_arts', layer: 'cat', label: '芸術文化事業', keywords: ['芸術', 'アート', '音楽', '演劇', '公演', '企画展', '展覧会'] },
+    { id: 'cat_facilities', layer: 'cat', label: '文化施設の運営・整備', keywords: ['施設', 'ホール', '会館', '美術館', '博物館', '図書館', '指定管理', '改修', '整備'] },
+    { id: 'cat_events', layer: 'cat', label: '文化イベント・祭事', keywords: ['文化祭', 'イベント', '祭', 'まつり', 'フェスティバル'] },
+    { id: 'cat_participation', layer: 'cat', label: '区民の文化活動支援', keywords: ['区民', '団体', '活動', '助成', '補助', '講座'] },
+    { id: 'cat_promotion', layer: 'cat', label: '情報発信・普及啓発', keywords: ['pr', '広報', '情報発信', '普及', '啓発'] },
+    PLANNING_CATEGORY,
+    OTHER_CATEGORY,
+  ],
+  industry: [
+    { id: 'cat_finance', layer: 'cat', label: '融資・資金支援', keywords: ['融資', '利子', '資金', '信用保証', '貸付'] },
+    { id: 'cat_startup', layer: 'cat', label: '創業支援', keywords: ['創業', '起業', 'スタートアップ', 'インキュベーション'] },
+    { id: 'cat_manufacturing', layer: 'cat', label: 'ものづくり・技術支援', keywords: ['ものづくり', '製造', '技術', '研究開発', '知的財産'] },
+    { id: 'cat_market', layer: 'cat', label: '販路開拓・展示会', keywords: ['販路', '展示会', '見本市', '商談', '物産'] },
+    { id: 'cat_employment', layer: 'cat', label: '就労・人材支援', keywords: ['就労', '雇用', '人材', '就職', '労働'] },
+    { id: 'cat_commerce', layer: 'cat', label: '商店街・商業振興', keywords: ['商店街', '商業'] },
+    { id: 'cat_sme', layer: 'cat', label: '中小企業の経営支援', keywords: ['中小企業', '経営', '相談', '専門家', '事業承継'] },
+    PLANNING_CATEGORY,
+    OTHER_CATEGORY,
+  ],
+  shopping_streets: [
+    { id: 'cat_vacancy', layer: 'cat', label: '空き店舗対策', keywords: ['空き店舗', '空店舗', '出店', '開業'] },
+    { id: 'cat_vouchers', layer: 'cat', label: '商品券・キャッシュレス', keywords: ['商品券', 'ポイント', 'キャッシュレス', 'プレミアム'] },
+    { id: 'cat_infrastructure', layer: 'cat', label: '街路灯・共同施設整備', keywords: ['街路灯', '街灯', 'アーケード', '防犯カメラ', 'led', '整備'] },
+    { id: 'cat_events', layer: 'cat', label: '商店街イベント支援', keywords: ['イベント', '祭', 'まつり', 'セール', '催事'] },
+    { id: 'cat_organizations', layer: 'cat', label: '商店会・担い手支援', keywords: ['商店会', '連合会', '組織', '担い手', '後継者', '団体', '負担金'] },
+    { id: 'cat_promotion', layer: 'cat', label: '情報発信・販売促進', keywords: ['pr', '広報', '情報発信', '宣伝', 'マップ', '販売促進'] },
+    PLANNING_CATEGORY,
+    OTHER_CATEGORY,
+  ],
+};
+
+// For custom domains, whose business names can't be anticipated
+const GENERIC_CATEGORIES: TaxonomyCategory[] = [
+  { id: 'cat_grants', layer: 'cat', label: '補助・助成', keywords: ['補助', '助成', '給付', '交付'] },
+  { id: 'cat_organizations', layer: 'cat', label: '団体支援・負担金', keywords: ['協会', '団体', '負担金'] },
+  { id: 'cat_events', layer: 'cat', label: 'イベント・普及啓発', keywords: ['イベント', '祭', 'まつり', '啓発', '講座', 'セミナー'] },
+  { id: 'cat_promotion', layer: 'cat', label: '広報・情報発信', keywords: ['pr', '広報', '情報発信', '宣伝', 'パンフレット'] },
+  { id: 'cat_facilities', layer: 'cat', label: '施設の運営・整備', keywords: ['施設', '整備', '運営', '改修', '指定管理', '会館', 'センター'] },
+  PLANNING_CATEGORY,
+  OTHER_CATEGORY,
+];
+
+/** The full vocabulary for one domain. */
+export const taxonomyFor = (domain: string): TaxonomyCategory[] =>
+  [...SHARED_CATEGORIES, ...(DOMAIN_CATEGORIES[domain] || GENERIC_CATEGORIES)];
+
+export const categoriesForLayer = (domain: string, layer: TaxonomyLayer) => taxonomyFor(domain).filter(c => c.layer === layer);
+
+export const getCategory = (domain: string, id: string) => taxonomyFor(domain).find(c => c.id === id);
+
+export const otherCategory = (domain: string, layer: TaxonomyLayer) => getCategory(domain, `${layer}_other`)!;
+
+// Full-width letters and case vary between wards and between runs
+const normalizeName = (name: string) => name.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+
+/** First category whose keywords appear in the name, or the layer's その他. */
+export const classifyByRules = (domain: string, layer: TaxonomyLayer, name: string): TaxonomyCategory => {
+  const normalized = normalizeName(name);
+  return categoriesForLayer(domain, layer).find(c => c.keywords.some(k => normalized.includes(k))) || otherCategory(domain, layer);
+};
+
+export type MappingSource = 'rule' | 'ai' | 'manual';
+
+export const MAPPING_SOURCE_LABELS: Record<MappingSource, string> = {
+  rule: 'ルール',
+  ai: 'AI',
+  manual: '手動',
+};
+
+// Keyed by mappingKey(domain, layer, name); rule results are recomputed, never stored
+export type TaxonomyOverrides = Record<string, { categoryId: string; source: Exclude<MappingSource, 'rule'> }>;
+
+// The same name can mean different things in two domains, so each keeps its own mappings
+export const mappingKey = (domain: string, layer: TaxonomyLayer, name: string) => `${domain}:${layer}:${normalizeName(name)}`;
+
+export interface ResolvedMapping {
+  category: TaxonomyCategory;
+  source: MappingSource;
+}
+
+export const resolveMapping = (domain: string, layer: TaxonomyLayer, name: string, overrides: TaxonomyOverrides): ResolvedMapping => {
+  const saved = overrides[mappingKey(domain, layer, name)];
+  const category = saved && getCategory(domain, saved.categoryId);
+  // A saved id from another layer or an older taxonomy falls back to the rules
+  if (saved && category && category.layer === layer) return { category, source: saved.source };
+  return { category: classifyByRules(domain, layer, name), source: 'rule' };
+};
+
+/** Canonical label for a node, or null for 具体的細目 and ids without a layer. */
+export type NodeClassifier = (nodeId: string, name: string) => string | null;
+
+export const createClassifier = (domain: string, overrides: TaxonomyOverrides): NodeClassifier => (nodeId, name) => {
+  const layer = getLayer(nodeId);
+  if (!layer || layer === 'item') return null;
+  return resolveMapping(domain, layer, name, overrides).category.label;
+};
+
+export interface NamedNode {
+  key: string;
+  layer: TaxonomyLayer;
+  name: string;
+  // Wards whose budgets use this name, in any year
+  cities: string[];
+}
+
+/** Every distinct rev/exp/cat name in one domain's data, most widely used first. */
+export const collectNodeNames = (cache: BudgetCache, domain: string): NamedNode[] => {
+  const byKey = new Map<string, NamedNode>();
+  Object.keys(cache).forEach(key => {
+    const budget = cache[key];
+    if (!budget || domainOf(budget) !== domain) return;
+    budget.data.nodes.forEach(node => {
+      const layer = getLayer(node.id);
+      if (!layer || layer === 'item') return;
+      const mapKey = mappingKey(domain, layer, node.name);
+      const entry = byKey.get(mapKey) || { key: mapKey, layer, name: node.name.trim(), cities: [] };
+      if (!entry.cities.includes(budget.city)) entry.cities.push(budget.city);
+      byKey.set(mapKey, entry);
+    });
+  });
+  return Array.from(byKey.values()).sort((a, b) =>
+    TAXONOMY_LAYERS.indexOf(a.layer) - TAXONOMY_LAYERS.indexOf(b.layer) || b.cities.length - a.cities.length || a.name.localeCompare(b.name, 'ja'));
+};
+
+export const buildClassificationPrompt = (items: NamedNode[], domain: BudgetDomain): string => {
+  const vocabulary = TAXONOMY_LAYERS.map(layer =>
+    `## ${LAYER_LABELS[layer]}（layer: ${layer}）\n${categoriesForLayer(domain.id, layer).map(c => `- ${c.id}: ${c.label}`).join('\n')}`).join('\n\n');
+  const names = items.map((item, index) => `${index}\t${item.layer}\t${item.name}`).join('\n');
+  return `東京23区の${domain.scope}に現れる項目名を、下記の標準分類に振り分けてください。
+各項目は同じ layer の分類からのみ選び、判断できない場合はその layer の *_other を選んでください。
+
+${vocabulary}
+
+## 項目（番号<TAB>layer<TAB>名称）
+${names}
+
+次の形式の JSON のみを返してください: {"assignments": [{"index": 0, "categoryId": "cat_promotion"}]}`;
+};
+
+/** Assignments from a model reply, skipping any that point at another layer or an unknown id. */
+export const parseClassificationReply = (text: string, items: NamedNode[], domain: string): TaxonomyOverrides => {
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed?.assignments)) throw new Error('分類結果の形式が正しくありません。');
+  const result: TaxonomyOverrides = {};
+  parsed.assignments.forEach((a: any) => {
+    const item = items[Number(a?.index)];
+    const category = typeof a?.categoryId === 'string' ? getCategory(domain, a.categoryId) : undefined;
+    if (item && category && category.layer === item.layer) result[item.key] = { categoryId: category.id, source: 'ai' };
+  });
+  return result;
+};
+
+const TAXONOMY_KEY = 'tokyo_23_budget_taxonomy_v2';
+const LEGACY_TAXONOMY_KEY = 'tokyo_23_budget_taxonomy_v1';
+
+// Mappings saved before domains had their own were all made for tourism
+const migrateLegacyOverrides = (legacy: TaxonomyOverrides): TaxonomyOverrides =>
+  Object.fromEntries(Object.entries(legacy).map(([key, value]) => [`${DEFAULT_DOMAIN_ID}:${key}`, value]));
+
+export const loadTaxonomyOverrides = (): TaxonomyOverrides => {
+  try {
+    const saved = localStorage.getItem(TAXONOMY_KEY);
+    if (saved) return JSON.parse(saved);
+    const legacy = localStorage.getItem(LEGACY_TAXONOMY_KEY);
+    return legacy ? migrateLegacyOverrides(JSON.parse(legacy)) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveTaxonomyOverrides = (overrides: TaxonomyOverrides) => {
+  localStorage.setItem(TAXONOMY_KEY, JSON.stringify(overrides));
+};
@@ -0,0 +1,14 @@
+// Full-width characters take about 1em, ASCII about half that
+export const textWidth = (text: string, fontSize: number) =>
+  Array.from(text).reduce((sum, ch) => sum + (ch.charCodeAt(0) < 0x2000 ? 0.55 : 1) * fontSize, 0);
+
+/** Cuts the text to fit the width, ending in "…" when anything was dropped. */
+export const fitText = (text: string, maxWidth: number, fontSize: number) => {
+  if (textWidth(text, fontSize) <= maxWidth) return text;
+  let out = '';
+  for (const ch of Array.from(text)) {
+    if (textWidth(out + ch + '…', fontSize) > maxWidth) break;
+    out += ch;
+  }
+  return out + '…';
+};
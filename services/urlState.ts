@@ -0,0 +1,91 @@
+import { City, FiscalYear } from '../types';
+import { CITIES, DEFAULT_FISCAL_YEAR, FISCAL_YEARS } from '../constants';
+import { COMPARISON_METRIC_LABELS, COMPARISON_STACKS, ComparisonMetric, ComparisonStack } from './budgetComparison';
+import { MAP_METRIC_LABELS, MapMetric } from './wardMetrics';
+import { categoriesForLayer, getCategory } from './taxonomy';
+import { DEFAULT_DOMAIN_ID } from './budgetDomains';
+
+export type ViewMode = 'flow' | 'diff' | 'compare' | 'map';
+
+const VIEW_MODES: ViewMode[] = ['flow', 'diff', 'compare', 'map'];
+
+/**
+ * Everything needed to reopen the same screen from a link. Options that only
+ * apply to one view are kept when switching away, but only written to the
+ * URL while that view is shown.
+ */
+export interface ViewState {
+  city: City;
+  viewMode: ViewMode;
+  fiscalYear: FiscalYear;
+  // Unknown ids (a custom domain from another browser) fall back when resolved
+  domainId: string;
+  // Node id the flow chart is narrowed to
+  focusId: string | null;
+  compareMetric: ComparisonMetric;
+  compareStack: ComparisonStack;
+  mapMetric: MapMetric;
+  mapCategory: string;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  city: '世田谷区',
+  viewMode: 'flow',
+  fiscalYear: DEFAULT_FISCAL_YEAR,
+  domainId: DEFAULT_DOMAIN_ID,
+  focusId: null,
+  compareMetric: 'total',
+  compareStack: 'rev',
+  mapMetric: 'total',
+  mapCategory: 'cat_promotion',
+};
+
+/** The map's category for a domain that has no usable one picked. */
+export const defaultMapCategory = (domain: string) =>
+  getCategory(domain, DEFAULT_VIEW_STATE.mapCategory) ? DEFAULT_VIEW_STATE.mapCategory : categoriesForLayer(domain, 'cat')[0].id;
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  value !== null && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+
+/** Reads a query string; anything missing or unrecognised falls back to the default. */
+export const parseViewState = (search: string): ViewState => {
+  const params = new URLSearchParams(search);
+  const viewMode = pick(params.get('view'), VIEW_MODES, DEFAULT_VIEW_STATE.viewMode);
+  const metric = params.get('metric');
+  const category = params.get('category');
+  const domainId = params.get('domain') || DEFAULT_VIEW_STATE.domainId;
+  return {
+    city: pick(params.get('ward'), CITIES, DEFAULT_VIEW_STATE.city),
+    viewMode,
+    fiscalYear: pick(params.get('fy'), FISCAL_YEARS, DEFAULT_VIEW_STATE.fiscalYear),
+    domainId,
+    focusId: params.get('focus') || null,
+    compareMetric: viewMode === 'compare'
+      ? pick(metric, Object.keys(COMPARISON_METRIC_LABELS) as ComparisonMetric[], DEFAULT_VIEW_STATE.compareMetric)
+      : DEFAULT_VIEW_STATE.compareMetric,
+    compareStack: pick(params.get('stack'), COMPARISON_STACKS, DEFAULT_VIEW_STATE.compareStack),
+    mapMetric: viewMode === 'map'
+      ? pick(metric, Object.keys(MAP_METRIC_LABELS) as MapMetric[], DEFAULT_VIEW_STATE.mapMetric)
+      : DEFAULT_VIEW_STATE.mapMetric,
+    mapCategory: category && getCategory(domainId, category) ? category : defaultMapCategory(domainId),
+  };
+};
+
+export const serializeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams();
+  params.set('ward', state.city);
+  params.set('view', state.viewMode);
+  params.set('fy', state.fiscalYear);
+  // Left out for tourism so links made before domains existed stay the same
+  if (state.domainId !== DEFAULT_DOMAIN_ID) params.set('domain', state.domainId);
+  if (state.viewMode === 'flow' && state.focusId) params.set('focus', state.focusId);
+  if (state.viewMode === 'compare') {
+    params.set('metric', state.compareMetric);
+    params.set('stack', state.compareStack);
+  }
+  if (state.viewMode === 'map') {
+    params.set('metric', state.mapMetric);
+    if (state.mapMetric === 'categoryShare') params.set('category', state.mapCategory);
+  }
+  return `?${params.toString()}`;
+};
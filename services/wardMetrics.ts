@@ -0,0 +1,74 @@
+import { BudgetCache, City, FiscalYear, SankeyData, WardStats } from '../types';
+import { FISCAL_YEARS } from '../constants';
+import { budgetKey } from './budgetCache';
+import { buildLayerComparison } from './budgetComparison';
+import { NodeClassifier, getCategory } from './taxonomy';
+
+export type MapMetric = 'total' | 'perCapita' | 'categoryShare' | 'yoy';
+
+export const MAP_METRIC_LABELS: Record<MapMetric, string> = {
+  total: '予算総額',
+  perCapita: '住民1人あたり',
+  categoryShare: '分類の構成比',
+  yoy: '前年度比',
+};
+
+/** Money entering the graph at its roots, so a four-layer flow isn't counted four times. */
+export const rootTotal = (data: SankeyData) => {
+  const targets = new Set(data.links.map(l => l.target));
+  return data.links.filter(l => !targets.has(l.source)).reduce((sum, l) => sum + l.value, 0);
+};
+
+export const previousFiscalYear = (fiscalYear: FiscalYear): FiscalYear | null =>
+  FISCAL_YEARS[FISCAL_YEARS.indexOf(fiscalYear) - 1] || null;
+
+/**
+ * One value per ward for the map: 千円, 円 per resident, percent of the
+ * ward's spending at the category's layer, or percent change on the previous
+ * fiscal year. Wards without the data they need get null.
+ */
+export const buildWardMetrics = (
+  cache: BudgetCache,
+  cities: City[],
+  fiscalYear: FiscalYear,
+  domain: string,
+  metric: MapMetric,
+  stats: Record<City, WardStats>,
+  classify: NodeClassifier,
+  categoryId: string
+): Map<City, number | null> => {
+  const totalOf = (city: City, year: FiscalYear) => {
+    const budget = cache[budgetKey(city, year, domain)];
+    return budget && budget.data.links.length > 0 ? rootTotal(budget.data) : null;
+  };
+
+  if (metric === 'categoryShare') {
+    const category = getCategory(domain, categoryId);
+    if (!category) return new Map(cities.map(city => [city, null]));
+    const rows = buildLayerComparison(cache, cities, fiscalYear, domain, category.layer, classify);
+    return new Map(rows.map(row => {
+      if (row.total === 0) return [row.city, null];
+      const value = row.categories.find(c => c.name === category.label)?.value || 0;
+      return [row.city, (value / row.total) * 100];
+    }));
+  }
+
+  const previousYear = previousFiscalYear(fiscalYear);
+  return new Map(cities.map(city => {
+    const total = totalOf(city, fiscalYear);
+    if (total === null) return [city, null];
+    if (metric === 'perCapita') return [city, stats[city] ? (total * 1000) / stats[city].population : null];
+    if (metric === 'yoy') {
+      const previous = previousYear && totalOf(city, previousYear);
+      return [city, previous ? ((total - previous) / previous) * 100 : null];
+    }
+    return [city, total];
+  }));
+};
+
+export const formatMapMetric = (value: number, metric: MapMetric, formatKYen: (kYen: number) => string) => {
+  if (metric === 'total') return formatKYen(value);
+  if (metric === 'perCapita') return `${Math.round(value).toLocaleString()}円`;
+  if (metric === 'yoy') return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+  return `${value.toFixed(1)}%`;
+};
@@ -0,0 +1,151 @@
+import { BudgetCache, CachedBudget } from '../types';
+import { CITIES, FISCAL_YEARS } from '../constants';
+import { budgetKey } from './budgetCache';
+import { BudgetDomain, BUILT_IN_DOMAINS, domainOf } from './budgetDomains';
+import { mergeHistories } from './budgetVersions';
+import { TaxonomyOverrides } from './taxonomy';
+
+export const BUNDLE_FORMAT = 'tokyo-23-budget-bundle';
+export const BUNDLE_VERSION = 2;
+
+/**
+ * A whole workspace as one JSON file. Records are stored exactly as cached, so
+ * an import gives back the same ids, explanations, sources, timestamps and
+ * transcripts that were exported. Custom domains and taxonomy mappings travel
+ * with them, since budgets in a custom domain and the comparison columns make
+ * no sense without them.
+ */
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  budgets: Record<string, CachedBudget>;
+  customDomains: BudgetDomain[];
+  taxonomyOverrides: TaxonomyOverrides;
+}
+
+export const createBundle = (cache: BudgetCache, customDomains: BudgetDomain[], taxonomyOverrides: TaxonomyOverrides): WorkspaceBundle => {
+  // Sorted keys keep two exports of the same cache diffable
+  const budgets: Record<string, CachedBudget> = {};
+  Object.keys(cache).sort().forEach(key => {
+    if (cache[key]) budgets[key] = cache[key]!;
+  });
+  const overrides: TaxonomyOverrides = {};
+  Object.keys(taxonomyOverrides).sort().forEach(key => {
+    overrides[key] = taxonomyOverrides[key];
+  });
+  return { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, exportedAt: Date.now(), budgets, customDomains, taxonomyOverrides: overrides };
+};
+
+export const serializeBundle = (cache: BudgetCache, customDomains: BudgetDomain[], taxonomyOverrides: TaxonomyOverrides) =>
+  JSON.stringify(createBundle(cache, customDomains, taxonomyOverrides), null, 2);
+
+// Each step upgrades from the previous version, so an old file runs through all of them
+const upgradeBundle = (bundle: any): WorkspaceBundle => {
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`このファイルは新しい形式（v${bundle.version}）です。アプリを更新してから読み込んでください。`);
+  }
+  let upgraded = bundle;
+  // v1 carried budgets only
+  if (upgraded.version < 2) upgraded = { ...upgraded, version: 2, customDomains: [], taxonomyOverrides: {} };
+  return upgraded;
+};
+
+const isValidRecord = (key: string, budget: any): budget is CachedBudget =>
+  !!budget &&
+  CITIES.includes(budget.city) &&
+  FISCAL_YEARS.includes(budget.fiscalYear) &&
+  key === budgetKey(budget.city, budget.fiscalYear, domainOf(budget)) &&
+  Array.isArray(budget.data?.nodes) &&
+  Array.isArray(budget.data?.links) &&
+  typeof budget.timestamp === 'number';
+
+const isValidDomain = (domain: any): domain is BudgetDomain =>
+  !!domain &&
+  typeof domain.id === 'string' &&
+  typeof domain.label === 'string' &&
+  typeof domain.scope === 'string' &&
+  !BUILT_IN_DOMAINS.some(b => b.id === domain.id);
+
+const isValidOverride = (override: any) =>
+  !!override && typeof override.categoryId === 'string' && (override.source === 'ai' || override.source === 'manual');
+
+export interface ParsedBundle {
+  budgets: BudgetCache;
+  exportedAt: number;
+  // Keys of records that were malformed and left out
+  rejected: string[];
+  customDomains: BudgetDomain[];
+  taxonomyOverrides: TaxonomyOverrides;
+}
+
+export const parseBundle = (text: string): ParsedBundle => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`JSONとして読み込めません（${e.message}）。`);
+  }
+  if (raw?.format !== BUNDLE_FORMAT || typeof raw.version !== 'number') {
+    throw new Error('このアプリからエクスポートしたJSONファイルではありません。');
+  }
+  const bundle = upgradeBundle(raw);
+
+  const budgets: BudgetCache = {};
+  const rejected: string[] = [];
+  Object.entries(bundle.budgets || {}).forEach(([key, budget]) => {
+    if (isValidRecord(key, budget)) budgets[key] = budget;
+    else rejected.push(key);
+  });
+  const customDomains = Array.isArray(bundle.customDomains) ? bundle.customDomains.filter(isValidDomain) : [];
+  const taxonomyOverrides: TaxonomyOverrides = {};
+  Object.entries(bundle.taxonomyOverrides || {}).forEach(([key, override]) => {
+    if (isValidOverride(override)) taxonomyOverrides[key] = override as TaxonomyOverrides[string];
+  });
+  return { budgets, exportedAt: bundle.exportedAt, rejected, customDomains, taxonomyOverrides };
+};
+
+export type BundleImportMode = 'merge' | 'replace';
+
+export interface BundleImportSummary {
+  added: string[];
+  // Present on both sides; the incoming record is newer and will win a merge
+  newer: string[];
+  // Present on both sides; the local record is as new or newer and is kept on merge
+  older: string[];
+  // Local records that a replace will delete
+  removed: string[];
+}
+
+export const summarizeBundleImport = (cache: BudgetCache, incoming: BudgetCache): BundleImportSummary => {
+  const summary: BundleImportSummary = { added: [], newer: [], older: [], removed: [] };
+  Object.entries(incoming).forEach(([key, budget]) => {
+    const local = cache[key];
+    if (!local) summary.added.push(key);
+    else if (budget!.timestamp > local.timestamp) summary.newer.push(key);
+    else summary.older.push(key);
+  });
+  summary.removed = Object.keys(cache).filter(key => cache[key] && !incoming[key]);
+  return summary;
+};
+
+/**
+ * Replace takes the bundle as-is. Merge makes whichever side of a shared key
+ * was saved last the current data, and keeps every version from both sides.
+ */
+export const applyBundleImport = (cache: BudgetCache, incoming: BudgetCache, mode: BundleImportMode): BudgetCache => {
+  if (mode === 'replace') return { ...incoming };
+  const next: BudgetCache = { ...cache };
+  Object.entries(incoming).forEach(([key, budget]) => {
+    const local = next[key];
+    next[key] = local ? mergeHistories(local, budget!) : budget;
+  });
+  return next;
+};
+
+// Settings have no timestamps to compare, so a merge only fills in what is missing locally
+export const applyDomainImport = (current: BudgetDomain[], incoming: BudgetDomain[], mode: BundleImportMode): BudgetDomain[] =>
+  mode === 'replace' ? [...incoming] : [...current, ...incoming.filter(d => !current.some(c => c.id === d.id))];
+
+export const applyOverridesImport = (current: TaxonomyOverrides, incoming: TaxonomyOverrides, mode: BundleImportMode): TaxonomyOverrides =>
+  mode === 'replace' ? { ...incoming } : { ...incoming, ...current };
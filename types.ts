@@ -4,15 +4,36 @@ export type City =
   | '品川区' | '目黒区' | '大田区' | '世田谷区' | '渋谷区' | '中野区' | '杉並区' | '豊島区' 
   | '北区' | '荒川区' | '板橋区' | '練馬区' | '足立区' | '葛飾区' | '江戸川区';
 
+export type FiscalYear = 'R4' | 'R5' | 'R6' | 'R7' | 'R8';
+
+// Where a single figure came from: a document and, ideally, the page and wording
+export interface Evidence {
+  uri?: string;
+  title?: string;
+  page?: string;
+  quote?: string;
+}
+
 export interface SankeyNode {
   id: string;
   name: string;
+  // 0-1, as reported by the model
+  confidence?: number;
+  evidence?: Evidence[];
+  // The prompt allows 合理的な推定値 when a figure is not published
+  estimated?: boolean;
+  // Corrected by hand in the budget editor rather than taken from the AI
+  manual?: boolean;
 }
 
 export interface SankeyLink {
   source: string;
   target: string;
   value: number;
+  confidence?: number;
+  evidence?: Evidence[];
+  estimated?: boolean;
+  manual?: boolean;
 }
 
 export interface SankeyData {
@@ -20,8 +41,59 @@ export interface SankeyData {
   links: SankeyLink[];
 }
 
+// One round trip with the model, kept so the final graph can be audited
+export interface ExtractionAttempt {
+  attempt: number;
+  prompt: string;
+  response: string;
+  violations: string[];
+  timestamp: number;
+}
+
 export interface BudgetResponse {
   data: SankeyData;
   explanation: string;
   sources: { title: string; uri: string }[];
+  fiscalYear: FiscalYear;
+  // BudgetDomain id; data saved before domains existed has none and is tourism
+  domain?: string;
+  attempts?: ExtractionAttempt[];
+  // Which model answered, the prompt template version and a hash of the rendered prompt
+  model?: string;
+  promptVersion?: number;
+  promptHash?: string;
+}
+
+// How one version of a ward's data came about, for the audit log
+export type VersionOrigin =
+  | { kind: 'ai'; model: string; promptVersion?: number; promptHash: string }
+  | { kind: 'merge'; model: string; promptVersion?: number; promptHash: string }
+  | { kind: 'csv'; fileName: string }
+  | { kind: 'manual' }
+  | { kind: 'restore'; versionId: string };
+
+export interface CachedBudget extends BudgetResponse {
+  city: City;
+  // When this version was created
+  timestamp: number;
+  // Entries saved before versioning have no id, author or origin
+  versionId?: string;
+  author?: string;
+  origin?: VersionOrigin;
+  // The AI result `data` was curated from; a refresh merges against it
+  aiData?: SankeyData;
+  // Earlier versions this entry replaced, oldest first; never edited once stored
+  versions?: BudgetVersion[];
+}
+
+export type BudgetVersion = Omit<CachedBudget, 'versions'>;
+
+// Keyed by budgetKey(city, fiscalYear, domain) so several years and domains of one ward can coexist
+export type BudgetCache = Partial<Record<string, CachedBudget>>;
+
+export interface WardStats {
+  population: number;
+  areaKm2: number;
+  // Annual tourist visits, in people
+  visitors: number;
 }
@@ -0,0 +1,55 @@
+import { City } from './types';
+
+export interface WardFeature {
+  type: 'Feature';
+  properties: { city: City };
+  geometry: { type: 'Polygon'; coordinates: [number, number][][] };
+}
+
+export interface WardFeatureCollection {
+  type: 'FeatureCollection';
+  features: WardFeature[];
+}
+
+const ward = (city: City, ring: [number, number][]): WardFeature => ({
+  type: 'Feature',
+  properties: { city },
+  geometry: { type: 'Polygon', coordinates: [ring] },
+});
+
+/**
+ * Simplified ward outlines in [longitude, latitude], small enough to bundle.
+ * Each shape is the Voronoi cell around the ward's approximate centre,
+ * clipped to a coarse outline of the 23 wards, so positions, neighbours and
+ * relative sizes are right but borders are schematic. Rings run clockwise as
+ * d3-geo expects. Any GeoJSON with the same properties.city can replace this,
+ * e.g. the 国土数値情報 N03 boundaries after simplification.
+ */
+export const WARD_GEOMETRY: WardFeatureCollection = {
+  type: 'FeatureCollection',
+  features: [
+  ward('千代田区', [[139.7277, 35.6708], [139.7249, 35.6756], [139.7329, 35.7009], [139.7652, 35.7063], [139.7842, 35.6912], [139.7499, 35.6675], [139.7277, 35.6708]]),
+  ward('中央区', [[139.7842, 35.6912], [139.7966, 35.69], [139.8053, 35.6859], [139.7892, 35.6302], [139.7499, 35.6675], [139.7842, 35.6912]]),
+  ward('港区', [[139.785, 35.622], [139.7807, 35.6165], [139.7205, 35.6301], [139.7129, 35.6462], [139.7277, 35.6708], [139.7499, 35.6675], [139.7892, 35.6302], [139.7919, 35.6216], [139.785, 35.622]]),
+  ward('新宿区', [[139.7249, 35.6756], [139.6815, 35.6882], [139.6876, 35.7183], [139.7238, 35.7145], [139.7329, 35.7009], [139.7249, 35.6756]]),
+  ward('文京区', [[139.7329, 35.7009], [139.7238, 35.7145], [139.7408, 35.7432], [139.7511, 35.746], [139.7679, 35.7275], [139.7652, 35.7063], [139.7329, 35.7009]]),
+  ward('台東区', [[139.7966, 35.69], [139.7842, 35.6912], [139.7652, 35.7063], [139.7679, 35.7275], [139.7988, 35.7275], [139.7966, 35.69]]),
+  ward('墨田区', [[139.8337, 35.689], [139.8053, 35.6859], [139.7966, 35.69], [139.7988, 35.7275], [139.823, 35.7435], [139.853, 35.7213], [139.8337, 35.689]]),
+  ward('江東区', [[139.862, 35.63], [139.822, 35.62], [139.7919, 35.6216], [139.7892, 35.6302], [139.8053, 35.6859], [139.8337, 35.689], [139.881, 35.635], [139.862, 35.63]]),
+  ward('品川区', [[139.7807, 35.6165], [139.768, 35.6], [139.7778, 35.577], [139.6933, 35.5941], [139.7205, 35.6301], [139.7807, 35.6165]]),
+  ward('目黒区', [[139.67, 35.6477], [139.7129, 35.6462], [139.7205, 35.6301], [139.6933, 35.5941], [139.6574, 35.5823], [139.6479, 35.587], [139.67, 35.6477]]),
+  ward('大田区', [[139.752, 35.528], [139.702, 35.548], [139.662, 35.58], [139.6574, 35.5823], [139.6933, 35.5941], [139.7778, 35.577], [139.785, 35.56], [139.792, 35.54], [139.752, 35.528]]),
+  ward('世田谷区', [[139.622, 35.6], [139.598, 35.618], [139.58, 35.642], [139.5844, 35.6588], [139.6511, 35.6727], [139.67, 35.6477], [139.6479, 35.587], [139.622, 35.6]]),
+  ward('渋谷区', [[139.6516, 35.6734], [139.6815, 35.6882], [139.7249, 35.6756], [139.7277, 35.6708], [139.7129, 35.6462], [139.67, 35.6477], [139.6511, 35.6727], [139.6516, 35.6734]]),
+  ward('中野区', [[139.6351, 35.7217], [139.6693, 35.74], [139.6707, 35.7396], [139.6876, 35.7183], [139.6815, 35.6882], [139.6516, 35.6734], [139.6351, 35.7217]]),
+  ward('杉並区', [[139.5844, 35.6588], [139.59, 35.68], [139.578, 35.702], [139.568, 35.722], [139.567, 35.727], [139.6351, 35.7217], [139.6516, 35.6734], [139.6511, 35.6727], [139.5844, 35.6588]]),
+  ward('豊島区', [[139.7238, 35.7145], [139.6876, 35.7183], [139.6707, 35.7396], [139.7038, 35.7544], [139.7408, 35.7432], [139.7238, 35.7145]]),
+  ward('北区', [[139.767, 35.7681], [139.7511, 35.746], [139.7408, 35.7432], [139.7038, 35.7544], [139.7124, 35.803], [139.7548, 35.8003], [139.767, 35.7681]]),
+  ward('荒川区', [[139.8186, 35.7568], [139.823, 35.7435], [139.7988, 35.7275], [139.7679, 35.7275], [139.7511, 35.746], [139.767, 35.7681], [139.8186, 35.7568]]),
+  ward('板橋区', [[139.7038, 35.7544], [139.6707, 35.7396], [139.6693, 35.74], [139.6443, 35.779], [139.662, 35.778], [139.68, 35.792], [139.712, 35.803], [139.7124, 35.803], [139.7038, 35.7544]]),
+  ward('練馬区', [[139.6351, 35.7217], [139.567, 35.727], [139.562, 35.752], [139.585, 35.772], [139.628, 35.78], [139.6443, 35.779], [139.6693, 35.74], [139.6351, 35.7217]]),
+  ward('足立区', [[139.84, 35.806], [139.8519, 35.8007], [139.8186, 35.7568], [139.767, 35.7681], [139.7548, 35.8003], [139.76, 35.8], [139.8, 35.822], [139.84, 35.806]]),
+  ward('葛飾区', [[139.8993, 35.7278], [139.853, 35.7213], [139.823, 35.7435], [139.8186, 35.7568], [139.8519, 35.8007], [139.865, 35.795], [139.882, 35.778], [139.893, 35.745], [139.8993, 35.7278]]),
+  ward('江戸川区', [[139.9, 35.64], [139.881, 35.635], [139.8337, 35.689], [139.853, 35.7213], [139.8993, 35.7278], [139.905, 35.712], [139.918, 35.67], [139.9, 35.64]]),
+  ],
+};